@@ -11,20 +11,34 @@
  */
 
 import axios from 'axios';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
-const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET_KEY || 'default-webhook-secret-key';
+const WEBHOOK_SECRET = (process.env.WEBHOOK_SECRET_KEYS || process.env.WEBHOOK_SECRET_KEY || 'default-webhook-secret-key').split(',')[0].trim();
+const WEBHOOK_BODY = '{}';
+
+/**
+ * En-têtes signés (HMAC-SHA256 de "timestamp.nonce.body"), un nonce par requête
+ */
+function signWebhookRequest(body, secret = WEBHOOK_SECRET) {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${nonce}.${body}`).digest('hex');
+
+  return {
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Nonce': nonce,
+    'X-Webhook-Signature': `v1=${signature}`,
+    'Content-Type': 'application/json'
+  };
+}
 
 // Configuration axios pour le webhook
 const api = axios.create({
   baseURL: API_BASE_URL,
-  headers: {
-    'X-Webhook-Secret': WEBHOOK_SECRET,
-    'Content-Type': 'application/json'
-  },
   timeout: 60000 // 60 secondes de timeout (le webhook peut prendre du temps)
 });
 
@@ -39,7 +53,9 @@ async function testWebhookCalculateTokens() {
     console.log('📤 Envoi de la requête webhook...');
     const startTime = Date.now();
     
-    const response = await api.post('/webhook/calculate-tokens');
+    const response = await api.post('/webhook/calculate-tokens', WEBHOOK_BODY, {
+      headers: signWebhookRequest(WEBHOOK_BODY)
+    });
     
     const duration = Date.now() - startTime;
     
@@ -69,7 +85,7 @@ async function testWebhookCalculateTokens() {
       console.error('   Réponse complète:', JSON.stringify(error.response.data, null, 2));
       
       if (error.response.status === 401) {
-        console.error('🔑 Vérifiez la clé secrète du webhook (WEBHOOK_SECRET_KEY)');
+        console.error('🔑 Vérifiez la clé secrète du webhook (WEBHOOK_SECRET_KEY) et l\'horloge de la machine');
       } else if (error.response.status === 409) {
         console.error('⚠️  Une autre instance du traitement est déjà en cours');
       }
@@ -95,14 +111,11 @@ async function testWebhookAuth() {
   try {
     const badApi = axios.create({
       baseURL: API_BASE_URL,
-      headers: {
-        'X-Webhook-Secret': 'wrong-secret-key',
-        'Content-Type': 'application/json'
-      },
+      headers: signWebhookRequest(WEBHOOK_BODY, 'wrong-secret-key'),
       timeout: 10000
     });
     
-    const response = await badApi.post('/webhook/calculate-tokens');
+    const response = await badApi.post('/webhook/calculate-tokens', WEBHOOK_BODY);
     console.log('⚠️  Réponse inattendue (devrait être une erreur 401):', response.data);
     
   } catch (error) {
@@ -954,7 +954,8 @@ export class AnthropicAdapter extends BaseAdapter {
       headers,
       data,
       timeout: this.config.timeout || 500000,
-      responseType: isStreaming ? 'stream' as const : 'json' as const
+      responseType: isStreaming ? 'stream' as const : 'json' as const,
+      signal: request._abortSignal // Annulation de l'appel amont si le client se déconnecte
     };
 
     try {
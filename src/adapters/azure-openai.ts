@@ -4,6 +4,8 @@ import type {
   StandardRequest, 
   ChatCompletion, 
   ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   OpenAIRequest,
   OpenAIResponse,
   AdapterConfig,
@@ -313,7 +315,8 @@ export class AzureOpenAIAdapter extends BaseAdapter {
       headers,
       data,
       timeout: this.config.timeout || 500000,
-      responseType: isStreaming ? 'stream' as const : 'json' as const
+      responseType: isStreaming ? 'stream' as const : 'json' as const,
+      signal: request._abortSignal // Annulation de l'appel amont si le client se déconnecte
     };
 
     try {
@@ -335,6 +338,66 @@ export class AzureOpenAIAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Génère des embeddings via le deployment Azure
+   * Format Azure: {endpoint}/openai/deployments/{deployment}/embeddings?api-version={version}
+   */
+  async embed(request: EmbeddingRequest, model: string): Promise<EmbeddingResponse> {
+    if (!this.azureEndpoint || !this.deploymentName) {
+      throw this.createError('Azure endpoint or deployment name not configured', 500, 'CONFIGURATION_ERROR');
+    }
+
+    const startTime = Date.now();
+    const cleanEndpoint = this.azureEndpoint.endsWith('/')
+      ? this.azureEndpoint.slice(0, -1)
+      : this.azureEndpoint;
+
+    const config = {
+      method: 'POST' as const,
+      url: `${cleanEndpoint}/openai/deployments/${this.deploymentName}/embeddings?api-version=${this.apiVersion}`,
+      headers: this.validateHeaders({
+        'api-key': this.azureApiKey!,
+        'Content-Type': 'application/json',
+        'User-Agent': 'LLM-Gateway-Azure/1.0'
+      }),
+      data: this.cleanParams({
+        input: request.input,
+        encoding_format: request.encoding_format,
+        dimensions: request.dimensions,
+        user: request.user
+      }),
+      timeout: this.config.timeout || 500000
+    };
+
+    try {
+      const response = await axios(config);
+      this.logMetrics('embed', Date.now() - startTime, true);
+
+      const data = response.data;
+      if (!data || !Array.isArray(data.data)) {
+        throw this.createError('Invalid Azure OpenAI embeddings response format', 500, 'API_ERROR');
+      }
+
+      return {
+        object: 'list',
+        data: data.data.map((item: any, index: number) => ({
+          object: 'embedding',
+          index: item.index ?? index,
+          embedding: item.embedding
+        })),
+        model: data.model || this.modelInfo?.model_id || model,
+        usage: data.usage ? {
+          prompt_tokens: data.usage.prompt_tokens,
+          total_tokens: data.usage.total_tokens ?? data.usage.prompt_tokens
+        } : undefined
+      };
+    } catch (error) {
+      this.logMetrics('embed', Date.now() - startTime, false);
+      if (error instanceof AdapterError) throw error;
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Valide spécifiquement les requêtes Azure OpenAI
    */
@@ -3,6 +3,8 @@ import type {
   StandardRequest, 
   ChatCompletion, 
   ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   Model
 } from '../types/index.js';
 import { 
@@ -48,6 +50,14 @@ export abstract class BaseAdapter implements AdapterInterface {
     isStreaming?: boolean
   ): Promise<AxiosResponse | ChatCompletion>;
 
+  /**
+   * Génère des embeddings via l'adapter
+   * Par défaut non supporté : l'erreur autorise le fallback vers un autre provider
+   */
+  async embed(request: EmbeddingRequest, model: string): Promise<EmbeddingResponse> {
+    throw this.createError(`Embeddings are not supported by the ${this.name} adapter`, 501, 'CONFIGURATION_ERROR');
+  }
+
   /**
    * Vérifie si l'adapter est correctement configuré
    */
@@ -285,6 +295,16 @@ export abstract class BaseAdapter implements AdapterInterface {
     return mappings[reason.toLowerCase()] || 'stop';
   }
 
+  /**
+   * Encode un vecteur d'embedding selon le format demandé (base64 = float32 little-endian, comme OpenAI)
+   */
+  protected encodeEmbedding(vector: number[], encodingFormat?: 'float' | 'base64'): number[] | string {
+    if (encodingFormat !== 'base64') {
+      return vector;
+    }
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+  }
+
   /**
    * Valide et nettoie les headers HTTP
    */
@@ -7,6 +7,8 @@ import type {
   StandardRequest, 
   ChatCompletion, 
   ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   AdapterConfig,
   Model,
   ToolCall,
@@ -1249,7 +1251,7 @@ export class BedrockAdapter extends BaseAdapter {
           accept: 'application/json'
         });
 
-        const response = await this.client.send(command);
+        const response = await this.client.send(command, { abortSignal: request._abortSignal });
         
         if (!response.body) {
           throw this.createError('Empty response from Bedrock', 500, 'API_ERROR');
@@ -1288,7 +1290,7 @@ export class BedrockAdapter extends BaseAdapter {
           accept: 'application/json'
         });
 
-        const response = await this.client.send(command);
+        const response = await this.client.send(command, { abortSignal: request._abortSignal });
         
         if (!response.body) {
           throw this.createError('Empty response from Bedrock', 500, 'API_ERROR');
@@ -1310,6 +1312,124 @@ export class BedrockAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Génère des embeddings via Bedrock (Amazon Titan ou Cohere Embed)
+   */
+  async embed(request: EmbeddingRequest, model: string): Promise<EmbeddingResponse> {
+    if (!this.client) {
+      throw this.createError('Bedrock client not configured', 500, 'CONFIGURATION_ERROR');
+    }
+
+    const startTime = Date.now();
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+
+    try {
+      let vectors: number[][];
+      let promptTokens: number | undefined;
+
+      if (model.includes('cohere.embed')) {
+        ({ vectors } = await this.embedWithCohere(inputs, model, request.input_type));
+      } else if (model.includes('amazon.titan-embed')) {
+        ({ vectors, promptTokens } = await this.embedWithTitan(inputs, model, request.dimensions));
+      } else {
+        throw this.createError(`Unsupported Bedrock embedding model: ${model}`, 400, 'VALIDATION_ERROR');
+      }
+
+      this.logMetrics('embed', Date.now() - startTime, true);
+
+      return {
+        object: 'list',
+        data: vectors.map((vector, index) => ({
+          object: 'embedding',
+          index,
+          embedding: this.encodeEmbedding(vector, request.encoding_format)
+        })),
+        model: this.modelInfo?.model_id || model,
+        // Cohere ne renvoie pas le nombre de tokens dans le body : calculé en aval
+        usage: promptTokens !== undefined ? {
+          prompt_tokens: promptTokens,
+          total_tokens: promptTokens
+        } : undefined
+      };
+    } catch (error) {
+      this.logMetrics('embed', Date.now() - startTime, false);
+      if (error instanceof AdapterError) throw error;
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Amazon Titan : un appel par texte, inputTextTokenCount fourni dans la réponse
+   */
+  private async embedWithTitan(
+    inputs: string[],
+    model: string,
+    dimensions?: number
+  ): Promise<{ vectors: number[][]; promptTokens: number }> {
+    const vectors: number[][] = [];
+    let promptTokens = 0;
+
+    for (const inputText of inputs) {
+      // dimensions/normalize ne sont supportés que par Titan v2
+      const body = model.includes('-v2')
+        ? this.cleanParams({ inputText, dimensions, normalize: true })
+        : { inputText };
+
+      const response = await this.client!.send(new InvokeModelCommand({
+        modelId: model,
+        body: JSON.stringify(body),
+        contentType: 'application/json',
+        accept: 'application/json'
+      }));
+
+      if (!response.body) {
+        throw this.createError('Empty response from Bedrock', 500, 'API_ERROR');
+      }
+
+      const parsed = JSON.parse(new TextDecoder().decode(response.body));
+      vectors.push(parsed.embedding);
+      promptTokens += parsed.inputTextTokenCount || 0;
+    }
+
+    return { vectors, promptTokens };
+  }
+
+  /**
+   * Cohere Embed : appels groupés (96 textes max par appel)
+   */
+  private async embedWithCohere(
+    inputs: string[],
+    model: string,
+    inputType?: string
+  ): Promise<{ vectors: number[][] }> {
+    const COHERE_MAX_TEXTS = 96;
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < inputs.length; i += COHERE_MAX_TEXTS) {
+      const texts = inputs.slice(i, i + COHERE_MAX_TEXTS);
+
+      const response = await this.client!.send(new InvokeModelCommand({
+        modelId: model,
+        body: JSON.stringify({
+          texts,
+          input_type: inputType || 'search_document'
+        }),
+        contentType: 'application/json',
+        accept: 'application/json'
+      }));
+
+      if (!response.body) {
+        throw this.createError('Empty response from Bedrock', 500, 'API_ERROR');
+      }
+
+      const parsed = JSON.parse(new TextDecoder().decode(response.body));
+      const embeddings = Array.isArray(parsed.embeddings) ? parsed.embeddings : parsed.embeddings?.float;
+      vectors.push(...(embeddings || []));
+    }
+
+    return { vectors };
+  }
+
   /**
    * Validation spécifique à Bedrock avec support des tools
    */
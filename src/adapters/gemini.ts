@@ -0,0 +1,717 @@
+import { BaseAdapter, AdapterError } from './base.js';
+import axios, { type AxiosResponse, type AxiosError } from 'axios';
+import type {
+  StandardRequest,
+  ChatCompletion,
+  ChatCompletionChunk,
+  AdapterConfig,
+  Model,
+  ToolCall,
+  Tool,
+  ToolChoice,
+  AdapterErrorCode,
+  ChatMessage,
+  ChatMessageContent,
+  Usage
+} from '../types/index.js';
+
+/**
+ * Interfaces pour l'API Gemini (generateContent / streamGenerateContent)
+ */
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  fileData?: {
+    mimeType: string;
+    fileUri: string;
+  };
+  functionCall?: {
+    id?: string;
+    name: string;
+    args?: Record<string, any>;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: Record<string, any>;
+  };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: {
+    parts: Array<{ text: string }>;
+  };
+  tools?: Array<{ functionDeclarations: GeminiFunctionDeclaration[] }>;
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: 'AUTO' | 'ANY' | 'NONE';
+      allowedFunctionNames?: string[];
+    };
+  };
+  generationConfig?: Record<string, any>;
+  safetySettings?: Array<{ category: string; threshold: string }>;
+  cachedContent?: string;
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      role?: string;
+      parts?: GeminiPart[];
+    };
+    finishReason?: string;
+    index?: number;
+  }>;
+  promptFeedback?: {
+    blockReason?: string;
+  };
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+}
+
+// Clés JSON Schema refusées par le champ "parameters" de Gemini
+const UNSUPPORTED_SCHEMA_KEYS = ['$schema', 'additionalProperties', '$id', '$ref', '$defs', 'definitions'];
+
+/**
+ * Adapter pour l'API native Google Gemini (Generative Language API)
+ * Convertit les requêtes OpenAI vers generateContent / streamGenerateContent
+ */
+export class GeminiAdapter extends BaseAdapter {
+  private modelInfo?: Model;
+  private streamId?: string;
+  private streamToolCallIndex = 0;
+
+  constructor(config: AdapterConfig = {}) {
+    super(config);
+    this.name = 'gemini';
+    this.apiKey = config.apiKey || process.env.GEMINI_API_KEY || process.env.API_KEY_GOOGLE;
+    this.baseURL = config.baseURL || 'https://generativelanguage.googleapis.com/v1beta';
+  }
+
+  configure(config: Partial<AdapterConfig>, model?: Model): void {
+    super.configure(config);
+    this.modelInfo = model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  buildHeaders(request: StandardRequest): Record<string, string> {
+    const headers: Record<string, string> = {
+      'x-goog-api-key': this.apiKey!,
+      'Content-Type': 'application/json',
+      'User-Agent': 'LLM-Gateway-Gemini/1.0'
+    };
+
+    return this.validateHeaders(headers);
+  }
+
+  getEndpoint(model: string): string {
+    const baseURL = this.baseURL!.endsWith('/') ? this.baseURL!.slice(0, -1) : this.baseURL!;
+    return `${baseURL}/models/${model}:generateContent`;
+  }
+
+  /**
+   * Endpoint de streaming (SSE via alt=sse)
+   */
+  private getStreamEndpoint(model: string): string {
+    const baseURL = this.baseURL!.endsWith('/') ? this.baseURL!.slice(0, -1) : this.baseURL!;
+    return `${baseURL}/models/${model}:streamGenerateContent?alt=sse`;
+  }
+
+  transformRequest(standardRequest: StandardRequest): GeminiRequest {
+    const modelInfo = typeof standardRequest.model === 'object' ? standardRequest.model : this.modelInfo;
+    const extraParam = modelInfo?.extra_param || {};
+
+    // Les messages system deviennent la systemInstruction
+    const systemTexts = standardRequest.messages
+      .filter(message => message.role === 'system')
+      .map(message => this.extractText(message.content))
+      .filter(text => text.length > 0);
+
+    const geminiRequest: GeminiRequest = {
+      contents: this.convertMessagesToGeminiFormat(
+        standardRequest.messages.filter(message => message.role !== 'system')
+      )
+    };
+
+    if (systemTexts.length > 0) {
+      geminiRequest.systemInstruction = {
+        parts: [{ text: systemTexts.join('\n\n') }]
+      };
+    }
+
+    if (standardRequest.tools && standardRequest.tools.length > 0 && standardRequest.tool_choice !== 'none') {
+      geminiRequest.tools = [{
+        functionDeclarations: this.convertToolsToGeminiFormat(standardRequest.tools)
+      }];
+    }
+
+    if (standardRequest.tool_choice && geminiRequest.tools) {
+      geminiRequest.toolConfig = this.convertToolChoice(standardRequest.tool_choice);
+    }
+
+    const stopSequences = standardRequest.stop
+      ? (Array.isArray(standardRequest.stop) ? standardRequest.stop : [standardRequest.stop])
+      : undefined;
+
+    // generation_config de extra_param (thinkingConfig, topK...) complété par les paramètres de la requête
+    const generationConfig = this.cleanParams({
+      ...(extraParam.generation_config || {}),
+      maxOutputTokens: standardRequest.max_tokens,
+      temperature: standardRequest.temperature,
+      topP: standardRequest.top_p,
+      frequencyPenalty: standardRequest.frequency_penalty,
+      presencePenalty: standardRequest.presence_penalty,
+      stopSequences
+    });
+
+    if (Object.keys(generationConfig).length > 0) {
+      geminiRequest.generationConfig = generationConfig;
+    }
+
+    const safetySettings = extraParam.safety_settings || extraParam.safetySettings;
+    if (Array.isArray(safetySettings) && safetySettings.length > 0) {
+      geminiRequest.safetySettings = safetySettings;
+    }
+
+    // Cache explicite (google_explicit) : nom du cachedContent créé côté Google
+    const cachedContent = extraParam.cached_content || extraParam.cachedContent;
+    if (typeof cachedContent === 'string' && cachedContent.length > 0) {
+      geminiRequest.cachedContent = cachedContent;
+    }
+
+    return geminiRequest;
+  }
+
+  /**
+   * Convertit les messages OpenAI (hors system) en contents Gemini
+   * Les messages consécutifs du même rôle sont fusionnés, comme l'exige l'API
+   */
+  private convertMessagesToGeminiFormat(messages: ChatMessage[]): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+
+    // Gemini identifie les réponses de tools par nom de fonction, pas par id
+    const toolNamesById = new Map<string, string>();
+    messages.forEach(message => {
+      message.tool_calls?.forEach(toolCall => {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+      });
+    });
+
+    for (const message of messages) {
+      let role: 'user' | 'model';
+      let parts: GeminiPart[];
+
+      if (message.role === 'assistant') {
+        role = 'model';
+        parts = this.convertContentToParts(message.content);
+
+        message.tool_calls?.forEach(toolCall => {
+          parts.push({
+            functionCall: {
+              name: toolCall.function.name,
+              args: this.parseJsonObject(toolCall.function.arguments)
+            }
+          });
+        });
+      } else if (message.role === 'tool') {
+        role = 'user';
+        const name = (message.tool_call_id && toolNamesById.get(message.tool_call_id)) || 'unknown_function';
+        parts = [{
+          functionResponse: {
+            name,
+            response: this.toFunctionResponse(this.extractText(message.content))
+          }
+        }];
+      } else {
+        role = 'user';
+        parts = this.convertContentToParts(message.content);
+      }
+
+      if (parts.length === 0) {
+        continue;
+      }
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * Convertit le contenu d'un message (texte ou blocs) en parts Gemini
+   */
+  private convertContentToParts(content: string | ChatMessageContent[] | undefined): GeminiPart[] {
+    if (!content) {
+      return [];
+    }
+
+    if (typeof content === 'string') {
+      return content.length > 0 ? [{ text: content }] : [];
+    }
+
+    const parts: GeminiPart[] = [];
+    for (const item of content) {
+      if (item.type === 'text' && item.text) {
+        parts.push({ text: item.text });
+      } else if (item.type === 'image_url' && item.image_url?.url) {
+        parts.push(this.convertImageToGeminiFormat(item.image_url.url));
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Convertit une image (data URL ou URL distante) en part Gemini
+   */
+  private convertImageToGeminiFormat(imageUrl: string): GeminiPart {
+    const match = imageUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (match) {
+      return {
+        inlineData: {
+          mimeType: match[1],
+          data: match[2]
+        }
+      };
+    }
+
+    // URL distante : Gemini accepte fileData avec un type MIME
+    const extension = imageUrl.split('?')[0].split('.').pop()?.toLowerCase();
+    const mimeTypes: Record<string, string> = {
+      png: 'image/png',
+      gif: 'image/gif',
+      webp: 'image/webp',
+      heic: 'image/heic',
+      heif: 'image/heif'
+    };
+
+    return {
+      fileData: {
+        mimeType: (extension && mimeTypes[extension]) || 'image/jpeg',
+        fileUri: imageUrl
+      }
+    };
+  }
+
+  private convertToolsToGeminiFormat(tools: Tool[]): GeminiFunctionDeclaration[] {
+    return tools
+      .filter(tool => tool.type === 'function')
+      .map(tool => {
+        const declaration: GeminiFunctionDeclaration = {
+          name: tool.function.name,
+          description: tool.function.description
+        };
+
+        const parameters = this.sanitizeSchema(tool.function.parameters);
+        // Gemini refuse un objet sans propriétés
+        if (parameters && !(parameters.type === 'object' && Object.keys(parameters.properties || {}).length === 0)) {
+          declaration.parameters = parameters;
+        }
+
+        return declaration;
+      });
+  }
+
+  private convertToolChoice(toolChoice: ToolChoice): GeminiRequest['toolConfig'] {
+    if (typeof toolChoice === 'object') {
+      return {
+        functionCallingConfig: {
+          mode: 'ANY',
+          allowedFunctionNames: [toolChoice.function.name]
+        }
+      };
+    }
+
+    const modes: Record<string, 'AUTO' | 'ANY' | 'NONE'> = {
+      auto: 'AUTO',
+      any: 'ANY',
+      required: 'ANY',
+      none: 'NONE'
+    };
+
+    return {
+      functionCallingConfig: { mode: modes[toolChoice] || 'AUTO' }
+    };
+  }
+
+  /**
+   * Retire récursivement les clés JSON Schema non supportées par Gemini
+   */
+  private sanitizeSchema(schema: unknown): Record<string, any> | undefined {
+    if (!schema || typeof schema !== 'object') {
+      return undefined;
+    }
+
+    if (Array.isArray(schema)) {
+      return schema.map(item => (item && typeof item === 'object' ? this.sanitizeSchema(item) : item)) as any;
+    }
+
+    const cleaned: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema as Record<string, any>)) {
+      if (UNSUPPORTED_SCHEMA_KEYS.includes(key)) continue;
+      cleaned[key] = value && typeof value === 'object' ? this.sanitizeSchema(value) : value;
+    }
+
+    return cleaned;
+  }
+
+  private extractText(content: string | ChatMessageContent[] | undefined): string {
+    if (!content) return '';
+    if (typeof content === 'string') return content;
+    return content
+      .filter(item => item.type === 'text' && item.text)
+      .map(item => item.text)
+      .join('\n');
+  }
+
+  private parseJsonObject(value: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(value || '{}');
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Le champ response d'une functionResponse doit être un objet JSON
+   */
+  private toFunctionResponse(content: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+      return { result: parsed };
+    } catch {
+      return { result: content };
+    }
+  }
+
+  /**
+   * Convertit usageMetadata en Usage
+   * prompt_tokens exclut les tokens cachés : le pricing google_implicit/google_explicit
+   * facture prompt_tokens au prix plein et cached_tokens au tarif réduit
+   */
+  private convertUsage(usageMetadata: GeminiUsageMetadata): Usage {
+    const cachedTokens = usageMetadata.cachedContentTokenCount || 0;
+    const promptTokens = Math.max((usageMetadata.promptTokenCount || 0) - cachedTokens, 0);
+    // Les tokens de réflexion sont facturés comme des tokens de sortie
+    const completionTokens = (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0);
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + cachedTokens + completionTokens,
+      cached_tokens: cachedTokens > 0 ? cachedTokens : undefined,
+      input_tokens: promptTokens,
+      output_tokens: completionTokens
+    };
+  }
+
+  private generateToolCallId(): string {
+    return `call_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  transformResponse(response: AxiosResponse<GeminiResponse>): ChatCompletion {
+    const data = response.data;
+
+    if (!data || (!data.candidates && !data.promptFeedback)) {
+      throw this.createError('Invalid Gemini response format', 500, 'API_ERROR');
+    }
+
+    const candidate = data.candidates?.[0];
+    const modelName = data.modelVersion || this.modelInfo?.provider_model_id || 'gemini';
+    let textContent = '';
+    const toolCalls: ToolCall[] = [];
+
+    candidate?.content?.parts?.forEach(part => {
+      // Les résumés de réflexion ne font pas partie de la réponse
+      if (part.thought) return;
+
+      if (typeof part.text === 'string') {
+        textContent += part.text;
+      } else if (part.functionCall) {
+        toolCalls.push({
+          id: part.functionCall.id || this.generateToolCallId(),
+          type: 'function',
+          function: {
+            name: part.functionCall.name,
+            arguments: JSON.stringify(part.functionCall.args || {})
+          }
+        });
+      }
+    });
+
+    // Prompt bloqué par Google : aucun candidat, blockReason renseigné
+    let finishReason = candidate
+      ? this.mapFinishReason(candidate.finishReason)
+      : (data.promptFeedback?.blockReason ? 'content_filter' : 'stop');
+
+    if (toolCalls.length > 0 && finishReason === 'stop') {
+      finishReason = 'tool_calls';
+    }
+
+    return {
+      id: data.responseId ? `gemini-${data.responseId}` : `gemini-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: modelName,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: textContent || null,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+        },
+        finish_reason: finishReason
+      }],
+      usage: data.usageMetadata ? this.convertUsage(data.usageMetadata) : undefined
+    };
+  }
+
+  transformStreamChunk(chunk: string): ChatCompletionChunk | null {
+    if (!chunk || chunk.trim() === '' || chunk.trim().toLowerCase() === '[done]') {
+      return null;
+    }
+
+    try {
+      let jsonStr = chunk;
+      if (chunk.startsWith('data: ')) {
+        jsonStr = chunk.slice(6);
+      }
+
+      const event: GeminiResponse = JSON.parse(jsonStr);
+      const candidate = event.candidates?.[0];
+      const modelName = event.modelVersion || this.modelInfo?.provider_model_id || 'gemini';
+
+      const isFirstChunk = !this.streamId;
+      if (isFirstChunk) {
+        this.streamId = event.responseId ? `gemini-${event.responseId}` : `gemini-${Date.now()}`;
+      }
+
+      let textContent = '';
+      const toolCalls: Partial<ToolCall & { index: number }>[] = [];
+
+      candidate?.content?.parts?.forEach(part => {
+        if (part.thought) return;
+
+        if (typeof part.text === 'string') {
+          textContent += part.text;
+        } else if (part.functionCall) {
+          // Gemini envoie chaque appel de fonction complet dans un seul chunk
+          toolCalls.push({
+            index: this.streamToolCallIndex++,
+            id: part.functionCall.id || this.generateToolCallId(),
+            type: 'function',
+            function: {
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args || {})
+            }
+          });
+        }
+      });
+
+      let finishReason = candidate?.finishReason
+        ? this.mapFinishReason(candidate.finishReason)
+        : (event.promptFeedback?.blockReason ? 'content_filter' : null);
+
+      if (finishReason === 'stop' && this.streamToolCallIndex > 0) {
+        finishReason = 'tool_calls';
+      }
+
+      if (!textContent && toolCalls.length === 0 && !finishReason) {
+        return null;
+      }
+
+      const delta: ChatCompletionChunk['choices'][0]['delta'] = isFirstChunk ? { role: 'assistant' } : {};
+      if (textContent) {
+        delta.content = textContent;
+      }
+      if (toolCalls.length > 0) {
+        delta.tool_calls = toolCalls;
+      }
+
+      // usageMetadata est cumulatif : on ne le remonte qu'avec le dernier chunk
+      return {
+        id: this.streamId!,
+        object: 'chat.completion.chunk',
+        created: Math.floor(Date.now() / 1000),
+        model: modelName,
+        choices: [{
+          index: 0,
+          delta,
+          finish_reason: finishReason
+        }],
+        usage: finishReason && event.usageMetadata ? this.convertUsage(event.usageMetadata) : undefined
+      };
+
+    } catch (error) {
+      console.warn('Failed to parse Gemini stream chunk:', chunk, error);
+      return null;
+    }
+  }
+
+  protected mapFinishReason(reason: string | null | undefined): 'stop' | 'length' | 'tool_calls' | 'content_filter' | null {
+    if (!reason) return null;
+
+    const mappings: Record<string, 'stop' | 'length' | 'tool_calls' | 'content_filter'> = {
+      'stop': 'stop',
+      'max_tokens': 'length',
+      'safety': 'content_filter',
+      'recitation': 'content_filter',
+      'blocklist': 'content_filter',
+      'prohibited_content': 'content_filter',
+      'spii': 'content_filter',
+      'image_safety': 'content_filter',
+      'malformed_function_call': 'stop'
+    };
+
+    return mappings[reason.toLowerCase()] || 'stop';
+  }
+
+  handleError(error: unknown): AdapterError {
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError;
+
+      if (axiosError.response) {
+        const status = axiosError.response.status;
+        const data = axiosError.response.data as any;
+        const detail = data?.error?.message;
+
+        let code: AdapterErrorCode = 'API_ERROR';
+        let message = 'Gemini API error';
+
+        switch (status) {
+          case 400:
+            code = 'VALIDATION_ERROR';
+            message = `Gemini Bad Request: ${detail || 'Invalid request'}`;
+            break;
+          case 401:
+          case 403:
+            code = 'AUTHENTICATION_ERROR';
+            message = `Gemini Authentication Error: ${detail || 'Invalid API key'}`;
+            break;
+          case 404:
+            message = `Gemini Model Not Found: ${detail || 'Unknown model'}`;
+            break;
+          case 429:
+            code = 'RATE_LIMIT_ERROR';
+            message = `Gemini Rate Limit: ${detail || 'Resource exhausted'}`;
+            break;
+          case 500:
+          case 503:
+            message = `Gemini Server Error: ${detail || 'Service unavailable'}`;
+            break;
+          default:
+            message = `Gemini API Error ${status}: ${detail || 'Unknown error'}`;
+        }
+
+        return new AdapterError(message, status, code, this.name, error);
+      } else if (axiosError.code === 'ECONNABORTED') {
+        return new AdapterError(
+          'Request timeout',
+          408,
+          'TIMEOUT_ERROR',
+          this.name,
+          error
+        );
+      } else if (axiosError.code === 'ENOTFOUND' || axiosError.code === 'ECONNREFUSED') {
+        return new AdapterError(
+          'Network connection failed',
+          503,
+          'NETWORK_ERROR',
+          this.name,
+          error
+        );
+      }
+    }
+
+    return new AdapterError(
+      error instanceof Error ? error.message : 'Unknown Gemini error',
+      500,
+      'UNKNOWN_ERROR',
+      this.name,
+      error
+    );
+  }
+
+  async makeRequest(
+    request: StandardRequest,
+    modelIdentifier: string,
+    isStreaming: boolean = false
+  ): Promise<AxiosResponse | ChatCompletion> {
+    if (!this.isConfigured()) {
+      throw this.createError('Gemini adapter not configured', 500, 'CONFIGURATION_ERROR');
+    }
+
+    const startTime = Date.now();
+    const endpoint = isStreaming ? this.getStreamEndpoint(modelIdentifier) : this.getEndpoint(modelIdentifier);
+    const headers = this.buildHeaders(request);
+    const data = this.transformRequest(request);
+
+    this.streamId = undefined;
+    this.streamToolCallIndex = 0;
+
+    const config = {
+      method: 'POST' as const,
+      url: endpoint,
+      headers,
+      data,
+      timeout: this.config.timeout || 500000,
+      responseType: isStreaming ? 'stream' as const : 'json' as const,
+      signal: request._abortSignal // Annulation de l'appel amont si le client se déconnecte
+    };
+
+    try {
+      const response = await axios(config);
+      const duration = Date.now() - startTime;
+
+      this.logMetrics(isStreaming ? 'makeStreamRequest' : 'makeRequest', duration, true);
+
+      if (isStreaming) {
+        return response;
+      } else {
+        return this.transformResponse(response);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logMetrics(isStreaming ? 'makeStreamRequest' : 'makeRequest', duration, false);
+
+      throw this.handleError(error);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { BaseAdapter, AdapterError } from './base.js';
 import { AzureOpenAIAdapter } from './azure-openai.js';
 import { VertexAnthropicAdapter } from './vertex-anthropic.js';
 import { AnthropicAdapter } from './anthropic.js';
+import { GeminiAdapter } from './gemini.js';
 import type { AdapterType, AdapterConfig, AdapterInterface } from '../types/index.js';
 
 /**
@@ -15,7 +16,8 @@ export const adapters: Record<AdapterType, new (config?: AdapterConfig) => BaseA
   bedrock: BedrockAdapter,
   'azure-openai': AzureOpenAIAdapter,
   'vertex-anthropic': VertexAnthropicAdapter,
-  anthropic: AnthropicAdapter
+  anthropic: AnthropicAdapter,
+  gemini: GeminiAdapter
 };
 
 
@@ -88,7 +90,8 @@ export function getAdapterInfo(adapterType: string): {
     bedrock: 'AWS Bedrock adapter for Claude and other Bedrock models',
     'azure-openai': 'Azure OpenAI adapter with proper authentication and endpoints',
     'vertex-anthropic': 'Google Vertex AI adapter for Anthropic models',
-    anthropic: 'Direct Anthropic Claude API adapter'
+    anthropic: 'Direct Anthropic Claude API adapter',
+    gemini: 'Native Google Gemini API adapter (generateContent / streamGenerateContent)'
   };
 
 
@@ -232,6 +235,7 @@ export { OpenAIAdapter };
 export { BedrockAdapter };
 export { AzureOpenAIAdapter };
 export { AnthropicAdapter };
+export { GeminiAdapter };
 export { BaseAdapter, AdapterError } from './base.js';
 
 // Types réexportés
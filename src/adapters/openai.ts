@@ -4,6 +4,8 @@ import type {
   StandardRequest, 
   ChatCompletion, 
   ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   OpenAIRequest,
   OpenAIResponse,
   AdapterConfig
@@ -245,7 +247,8 @@ export class OpenAIAdapter extends BaseAdapter {
       headers,
       data,
       timeout: this.config.timeout || 500000,
-      responseType: isStreaming ? 'stream' as const : 'json' as const
+      responseType: isStreaming ? 'stream' as const : 'json' as const,
+      signal: request._abortSignal // Annulation de l'appel amont si le client se déconnecte
     };
 
     try {
@@ -267,6 +270,59 @@ export class OpenAIAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Génère des embeddings via l'endpoint /embeddings compatible OpenAI
+   */
+  async embed(request: EmbeddingRequest, model: string): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+
+    const config = {
+      method: 'POST' as const,
+      url: `${this.baseURL}/embeddings`,
+      headers: this.validateHeaders({
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'LLM-Gateway/1.0'
+      }),
+      data: this.cleanParams({
+        model,
+        input: request.input,
+        encoding_format: request.encoding_format,
+        dimensions: request.dimensions,
+        user: request.user
+      }),
+      timeout: this.config.timeout || 500000
+    };
+
+    try {
+      const response = await axios(config);
+      this.logMetrics('embed', Date.now() - startTime, true);
+
+      const data = response.data;
+      if (!data || !Array.isArray(data.data)) {
+        throw this.createError('Invalid OpenAI embeddings response format', 500, 'API_ERROR');
+      }
+
+      return {
+        object: 'list',
+        data: data.data.map((item: any, index: number) => ({
+          object: 'embedding',
+          index: item.index ?? index,
+          embedding: item.embedding
+        })),
+        model: data.model || model,
+        usage: data.usage ? {
+          prompt_tokens: data.usage.prompt_tokens,
+          total_tokens: data.usage.total_tokens ?? data.usage.prompt_tokens
+        } : undefined
+      };
+    } catch (error) {
+      this.logMetrics('embed', Date.now() - startTime, false);
+      if (error instanceof AdapterError) throw error;
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Valide spécifiquement les requêtes OpenAI
    */
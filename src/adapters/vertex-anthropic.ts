@@ -934,7 +934,7 @@ export class VertexAnthropicAdapter extends BaseAdapter {
         const stream = await this.client.messages.stream({
           model: modelIdentifier,
           ...vertexRequest
-        });
+        }, { signal: request._abortSignal });
 
         const streamData = this.createVertexStream(stream);
         
@@ -964,7 +964,7 @@ export class VertexAnthropicAdapter extends BaseAdapter {
         const response = await this.client.messages.create({
           model: modelIdentifier,
           ...vertexRequest
-        });
+        }, { signal: request._abortSignal });
         
         const duration = Date.now() - startTime;
         this.logMetrics('makeRequest', duration, true);
@@ -1,6 +1,6 @@
 import NodeCache from 'node-cache';
 import { dbConfig } from './database.js';
-import type { AuthData, CacheKey } from '../types/index.js';
+import type { AuthData, CacheKey, FamilyConfig, Organization } from '../types/index.js';
 
 // Cache principal pour les données générales
 export const cache = new NodeCache({
@@ -30,19 +30,44 @@ export const apiKeysCache = new NodeCache({
   useClones: false
 });
 
+// Cache des scores de complexité des familles (TTL fixé par famille via cache_duration_minutes)
+export const familyEvaluationCache = new NodeCache({
+  stdTTL: 0,
+  checkperiod: 60,
+  useClones: false
+});
+
 // Utilitaires de cache
 export const cacheUtils = {
   // Génère une clé de cache pour la balance d'un utilisateur
   balanceKey: (userId: string): CacheKey => `balance:${userId}`,
   
-  // Génère une clé de cache pour une clé API
-  apiKeyKey: (apiKey: string): CacheKey => `apikey:${apiKey}`,
+  // Génère une clé de cache pour une clé API (indexée par son hash, jamais par la clé en clair)
+  apiKeyKey: (apiKeyHash: string): CacheKey => `apikey:${apiKeyHash}`,
+  
+  // Génère une clé de cache pour la dépense d'une clé API sur une période (since : début de période ISO)
+  apiKeySpendKey: (apiKeyId: string, since: string): CacheKey => `apikeyspend:${apiKeyId}:${since}`,
+  
+  // Génère une clé de cache pour l'appartenance d'un utilisateur à une organisation
+  organizationMemberKey: (organizationId: string, userId: string): CacheKey => `orgmember:${organizationId}:${userId}`,
+
+  // Génère une clé de cache pour le wallet facturé (organisation ou utilisateur)
+  billingBalanceKey: (userId: string, organizationId?: string | null): string => organizationId ? `org:${organizationId}` : userId,
   
   // Génère une clé de cache pour les modèles
   modelsKey: (): CacheKey => 'models:all',
   
   // Génère une clé de cache pour les modèles d'un provider
   providerModelsKey: (provider: string): CacheKey => `models:${provider}`,
+
+  // Génère une clé de cache pour la configuration d'une famille
+  familyConfigKey: (familyId: string): CacheKey => `familyconfig:${familyId}`,
+
+  // Génère une clé de cache pour le score d'une famille sur un préfixe de conversation
+  familyEvaluationKey: (familyId: string, prefixHash: string): CacheKey => `family:${familyId}:${prefixHash}`,
+
+  // Génère une clé de cache pour un nonce de webhook déjà utilisé
+  webhookNonceKey: (nonce: string): CacheKey => `webhooknonce:${nonce}`,
   
   // Invalide le cache de balance d'un utilisateur
   invalidateBalance: (userId: string): void => {
@@ -50,8 +75,8 @@ export const cacheUtils = {
   },
   
   // Invalide le cache d'une clé API
-  invalidateApiKey: (apiKey: string): void => {
-    apiKeysCache.del(cacheUtils.apiKeyKey(apiKey));
+  invalidateApiKey: (apiKeyHash: string): void => {
+    apiKeysCache.del(cacheUtils.apiKeyKey(apiKeyHash));
   },
   
   // Invalide tous les caches de modèles
@@ -70,13 +95,48 @@ export const cacheUtils = {
   },
 
   // Récupère les données d'auth depuis le cache
-  getAuthData: (apiKey: string): AuthData | undefined => {
-    return apiKeysCache.get<AuthData>(cacheUtils.apiKeyKey(apiKey));
+  getAuthData: (apiKeyHash: string): AuthData | undefined => {
+    return apiKeysCache.get<AuthData>(cacheUtils.apiKeyKey(apiKeyHash));
   },
 
   // Met en cache les données d'auth
-  setAuthData: (apiKey: string, authData: AuthData): void => {
-    apiKeysCache.set(cacheUtils.apiKeyKey(apiKey), authData);
+  setAuthData: (apiKeyHash: string, authData: AuthData): void => {
+    apiKeysCache.set(cacheUtils.apiKeyKey(apiKeyHash), authData);
+  },
+
+  // Récupère la dépense d'une clé API depuis le cache (même TTL que la balance)
+  getApiKeySpend: (apiKeyId: string, since: string): number | undefined => {
+    return balanceCache.get<number>(cacheUtils.apiKeySpendKey(apiKeyId, since));
+  },
+
+  // Met en cache la dépense d'une clé API
+  setApiKeySpend: (apiKeyId: string, since: string, amount: number): void => {
+    balanceCache.set(cacheUtils.apiKeySpendKey(apiKeyId, since), amount);
+  },
+
+  // Récupère l'appartenance à une organisation (null : non membre, undefined : absente du cache)
+  getOrganizationMembership: (organizationId: string, userId: string): Organization | null | undefined => {
+    return cache.get<Organization | null>(cacheUtils.organizationMemberKey(organizationId, userId));
+  },
+
+  // Met en cache l'appartenance à une organisation
+  setOrganizationMembership: (organizationId: string, userId: string, membership: Organization | null): void => {
+    cache.set(cacheUtils.organizationMemberKey(organizationId, userId), membership);
+  },
+
+  // Enregistre un nonce de webhook pour ttlSeconds ; false s'il a déjà été vu (rejeu)
+  claimWebhookNonce: (nonce: string, ttlSeconds: number): boolean => {
+    const key = cacheUtils.webhookNonceKey(nonce);
+    if (cache.has(key)) {
+      return false;
+    }
+    cache.set(key, true, ttlSeconds);
+    return true;
+  },
+
+  // Invalide l'appartenance d'un membre (ajout, changement de rôle, retrait)
+  invalidateOrganizationMembership: (organizationId: string, userId: string): void => {
+    cache.del(cacheUtils.organizationMemberKey(organizationId, userId));
   },
 
   // Récupère tous les modèles depuis le cache
@@ -97,6 +157,33 @@ export const cacheUtils = {
   // Met en cache les modèles d'un provider
   setProviderModels: (provider: string, models: any[]): void => {
     modelsCache.set(cacheUtils.providerModelsKey(provider), models);
+  },
+
+  // Récupère un score de complexité depuis le cache
+  getFamilyEvaluation: (familyId: string, prefixHash: string): number | undefined => {
+    return familyEvaluationCache.get<number>(cacheUtils.familyEvaluationKey(familyId, prefixHash));
+  },
+
+  // Met en cache un score de complexité (ttlSeconds : durée configurée par la famille)
+  setFamilyEvaluation: (familyId: string, prefixHash: string, score: number, ttlSeconds: number): void => {
+    familyEvaluationCache.set(cacheUtils.familyEvaluationKey(familyId, prefixHash), score, ttlSeconds);
+  },
+
+  // Récupère la configuration d'une famille (null : famille inexistante ou inactive, undefined : absente du cache)
+  getFamilyConfig: (familyId: string): FamilyConfig | null | undefined => {
+    return cache.get<FamilyConfig | null>(cacheUtils.familyConfigKey(familyId));
+  },
+
+  // Met en cache la configuration d'une famille
+  setFamilyConfig: (familyId: string, config: FamilyConfig | null): void => {
+    cache.set(cacheUtils.familyConfigKey(familyId), config);
+  },
+
+  // Invalide la configuration et les scores en cache d'une famille
+  invalidateFamily: (familyId: string): void => {
+    cache.del(cacheUtils.familyConfigKey(familyId));
+    const evaluationPrefix = `family:${familyId}:`;
+    familyEvaluationCache.del(familyEvaluationCache.keys().filter(key => key.startsWith(evaluationPrefix)));
   }
 };
 
@@ -124,7 +211,8 @@ export const getCacheStats = (): Record<string, CacheStats> => {
     main: getStats(cache, 'main'),
     balance: getStats(balanceCache, 'balance'),
     models: getStats(modelsCache, 'models'),
-    apiKeys: getStats(apiKeysCache, 'apiKeys')
+    apiKeys: getStats(apiKeysCache, 'apiKeys'),
+    familyEvaluations: getStats(familyEvaluationCache, 'familyEvaluations')
   };
 };
 
@@ -134,6 +222,7 @@ export const flushAllCaches = (): void => {
   balanceCache.flushAll();
   modelsCache.flushAll();
   apiKeysCache.flushAll();
+  familyEvaluationCache.flushAll();
 };
 
 // Événements de cache pour le debugging
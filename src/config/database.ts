@@ -151,5 +151,6 @@ export { supabaseAuth };
 export const dbConfig: DatabaseConfig = {
   minimalFund: parseFloat(process.env.MINIMAL_FUND || '0.01'),
   cacheTtl: parseInt(process.env.CACHE_TTL_SECONDS || '300'),
-  balanceCacheTtl: parseInt(process.env.BALANCE_CACHE_TTL_SECONDS || '60')
+  balanceCacheTtl: parseInt(process.env.BALANCE_CACHE_TTL_SECONDS || '60'),
+  walletHoldTtl: parseInt(process.env.WALLET_HOLD_TTL_SECONDS || '900')
 };
\ No newline at end of file
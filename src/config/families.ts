@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+
+/**
+ * Section settings de families.yaml
+ */
+export interface FamilySettings {
+  max_families_per_user: number;
+  max_evaluation_time_ms: number;
+  default_cache_duration_minutes: number;
+}
+
+// Valeurs utilisées si families.yaml est absent ou incomplet
+const DEFAULT_FAMILY_SETTINGS: FamilySettings = {
+  max_families_per_user: 5,
+  max_evaluation_time_ms: 3000,
+  default_cache_duration_minutes: 60
+};
+
+let familySettings: FamilySettings | null = null;
+
+/**
+ * Charge (une seule fois) les paramètres des familles depuis families.yaml
+ * Chemin configurable via FAMILIES_CONFIG_PATH
+ */
+export function getFamilySettings(): FamilySettings {
+  if (familySettings) {
+    return familySettings;
+  }
+
+  const configPath = process.env.FAMILIES_CONFIG_PATH || path.resolve(process.cwd(), 'families.yaml');
+
+  try {
+    const data = yaml.load(fs.readFileSync(configPath, 'utf8')) as { settings?: Partial<FamilySettings> } | undefined;
+    familySettings = { ...DEFAULT_FAMILY_SETTINGS, ...(data?.settings || {}) };
+  } catch (error) {
+    console.warn(`⚠️ Could not load family settings from ${configPath}, using defaults:`, error instanceof Error ? error.message : error);
+    familySettings = { ...DEFAULT_FAMILY_SETTINGS };
+  }
+
+  return familySettings;
+}
@@ -0,0 +1,73 @@
+/**
+ * Limites d'un palier (tier) utilisateur ou d'une clé API
+ */
+export interface RateLimitConfig {
+  requests_per_minute: number;
+  tokens_per_minute: number;
+}
+
+function readNumberEnv(name: string, defaultValue: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return !isNaN(value) && value > 0 ? value : defaultValue;
+}
+
+// Palier appliqué aux utilisateurs sans wallet.rate_limit_tier (ou avec un palier inconnu)
+// Non défini par défaut : ces utilisateurs ne sont limités que par les limites de leur clé API
+export const DEFAULT_RATE_LIMIT_TIER = process.env.RATE_LIMIT_DEFAULT_TIER || null;
+
+// Paliers intégrés, surchargeables via RATE_LIMIT_TIERS (JSON : {"pro": {"requests_per_minute": 1000, ...}})
+const BUILTIN_TIERS: Record<string, RateLimitConfig> = {
+  free: {
+    requests_per_minute: readNumberEnv('RATE_LIMIT_REQUESTS_PER_MINUTE', 60),
+    tokens_per_minute: readNumberEnv('RATE_LIMIT_TOKENS_PER_MINUTE', 200000)
+  },
+  pro: {
+    requests_per_minute: 600,
+    tokens_per_minute: 2000000
+  },
+  enterprise: {
+    requests_per_minute: 3000,
+    tokens_per_minute: 10000000
+  }
+};
+
+let rateLimitTiers: Record<string, RateLimitConfig> | null = null;
+
+/**
+ * Charge (une seule fois) les paliers de rate limiting
+ */
+export function getRateLimitTiers(): Record<string, RateLimitConfig> {
+  if (rateLimitTiers) {
+    return rateLimitTiers;
+  }
+
+  rateLimitTiers = { ...BUILTIN_TIERS };
+
+  if (process.env.RATE_LIMIT_TIERS) {
+    try {
+      const overrides = JSON.parse(process.env.RATE_LIMIT_TIERS) as Record<string, Partial<RateLimitConfig>>;
+      for (const [tier, limits] of Object.entries(overrides)) {
+        rateLimitTiers[tier] = { ...(rateLimitTiers[tier] || BUILTIN_TIERS.free), ...limits };
+      }
+    } catch (error) {
+      console.warn('⚠️ Invalid RATE_LIMIT_TIERS, using built-in tiers:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return rateLimitTiers;
+}
+
+/**
+ * Limites d'un palier (palier par défaut si absent ou inconnu, null si aucun palier ne s'applique)
+ */
+export function getRateLimitTier(tier?: string | null): RateLimitConfig | null {
+  const tiers = getRateLimitTiers();
+  if (tier && tiers[tier]) {
+    return tiers[tier];
+  }
+
+  return DEFAULT_RATE_LIMIT_TIER ? tiers[DEFAULT_RATE_LIMIT_TIER] || null : null;
+}
+
+// Rate limiting désactivable (tests de charge, déploiement derrière une passerelle qui limite déjà)
+export const rateLimitEnabled = process.env.RATE_LIMIT_ENABLED !== 'false';
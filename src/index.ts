@@ -25,7 +25,21 @@ interface ExtendedApiError {
 
 // Importer les routes
 import chatRoutes from './routes/chat.js';
+import messagesRoutes from './routes/messages.js';
+import embeddingsRoutes from './routes/embeddings.js';
+import filesRoutes from './routes/files.js';
+import batchesRoutes from './routes/batches.js';
+import { batchService } from './services/batch-service.js';
 import webhookRoutes from './routes/webhook.js';
+import familiesRoutes from './routes/families.js';
+import userFamiliesRoutes from './routes/user-families.js';
+import routingRoutes from './routes/routing.js';
+import organizationsRoutes from './routes/organizations.js';
+import keysRoutes from './routes/keys.js';
+import { providerHealth } from './services/provider-health.js';
+import { authOnlyMiddleware, adminMiddleware } from './middleware/auth.js';
+import { assertWebhookSecretsConfigured } from './services/webhook-signature.js';
+import { assertApiKeyHashSecretConfigured } from './services/api-keys.js';
 
 /**
  * Interface pour les informations du serveur
@@ -39,9 +53,19 @@ interface ServerInfo {
   uptime: number;
   endpoints: {
     chat: string;
+    messages: string;
+    embeddings: string;
+    files: string;
+    batches: string;
     completion: string;
     models: string;
     estimate: string;
+    routingExplain: string;
+    families: string;
+    organizations: string;
+    keys: string;
+    adminFamilies: string;
+    providerHealth: string;
   };
 }
 
@@ -63,6 +87,15 @@ interface ServerStats {
   timestamp: string;
 }
 
+// Refuser de démarrer en production avec le secret webhook ou le secret de hachage des clés par défaut
+try {
+  assertWebhookSecretsConfigured();
+  assertApiKeyHashSecretConfigured();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
 // Créer l'application Hono avec les variables typées
 const app = new Hono<{ Variables: HonoVariables }>();
 
@@ -140,11 +173,33 @@ app.use('*', cors({
     'Content-Type', 
     'Authorization', 
     'X-API-Key', 
-    'X-Webhook-Secret',
-    'X-Request-ID'
+    'X-Makehub-Organization',
+    'X-Webhook-Signature',
+    'X-Webhook-Timestamp',
+    'X-Webhook-Nonce',
+    'X-Request-ID',
+    'anthropic-version',
+    'anthropic-beta'
+  ],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  exposeHeaders: [
+    'Content-Length',
+    'X-Request-ID',
+    'X-Makehub-Request-Id',
+    'X-Makehub-Provider',
+    'X-Makehub-Model',
+    'X-Makehub-Attempts',
+    'X-Makehub-Family',
+    'X-Makehub-Family-Score',
+    'X-Makehub-Estimated-Cost',
+    'Retry-After',
+    'x-ratelimit-limit-requests',
+    'x-ratelimit-remaining-requests',
+    'x-ratelimit-reset-requests',
+    'x-ratelimit-limit-tokens',
+    'x-ratelimit-remaining-tokens',
+    'x-ratelimit-reset-tokens'
   ],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  exposeHeaders: ['Content-Length', 'X-Request-ID'],
   maxAge: 600,
   credentials: true,
 }));
@@ -200,9 +255,19 @@ app.get('/', (c: Context) => {
     uptime: getUptime(),
     endpoints: {
       chat: '/v1/chat/completions',
+      messages: '/v1/messages',
+      embeddings: '/v1/embeddings',
+      files: '/v1/files',
+      batches: '/v1/batches',
       completion: '/v1/completion',
       models: '/v1/models',
-      estimate: '/v1/chat/estimate'
+      estimate: '/v1/chat/estimate',
+      routingExplain: '/v1/routing/explain',
+      families: '/v1/families',
+      organizations: '/v1/organizations',
+      keys: '/v1/keys',
+      adminFamilies: '/v1/admin/families',
+      providerHealth: '/health/providers'
     }
   };
   
@@ -221,6 +286,18 @@ app.get('/health', (c: Context) => {
   return c.json(health);
 });
 
+// État des circuit breakers par provider/modèle (administrateurs : last_error peut contenir des URLs et réponses amont)
+app.get('/health/providers', authOnlyMiddleware, adminMiddleware, (c: Context) => {
+  const providers = providerHealth.getSnapshot();
+
+  return c.json({
+    timestamp: new Date().toISOString(),
+    open: providers.filter(provider => provider.state === 'open').length,
+    half_open: providers.filter(provider => provider.state === 'half_open').length,
+    providers
+  });
+});
+
 // Route de statistiques détaillées
 app.get('/stats', (c: Context) => {
   const stats = getSystemStats();
@@ -253,6 +330,15 @@ app.get('/favicon.ico', (c: Context) => {
 
 // Monter les routes avec préfixes
 app.route('/v1/chat', chatRoutes);
+app.route('/v1/messages', messagesRoutes);
+app.route('/v1/embeddings', embeddingsRoutes);
+app.route('/v1/files', filesRoutes);
+app.route('/v1/batches', batchesRoutes);
+app.route('/v1/families', userFamiliesRoutes);
+app.route('/v1/routing', routingRoutes);
+app.route('/v1/organizations', organizationsRoutes);
+app.route('/v1/keys', keysRoutes);
+app.route('/v1/admin/families', familiesRoutes);
 app.route('/v1', chatRoutes);
 app.route('/webhook', webhookRoutes);
 
@@ -265,9 +351,19 @@ app.notFound((c: Context) => {
       path: c.req.path,
       available_endpoints: [
         '/v1/chat/completions',
+        '/v1/messages',
+        '/v1/embeddings',
+        '/v1/files',
+        '/v1/batches',
         '/v1/completion',
         '/v1/models',
         '/v1/chat/estimate',
+        '/v1/routing/explain',
+        '/v1/families',
+        '/v1/organizations',
+        '/v1/keys',
+        '/v1/admin/families',
+        '/health/providers',
       ]
     }
   };
@@ -404,6 +500,9 @@ if (!(globalThis as any).__startupInfoDisplayed) {
 
 serverStatus = 'running';
 
+// Reprise des batches interrompus (redémarrage, instance arrêtée)
+batchService.startRecovery();
+
 // Exports nommés pour les utilitaires
 export { 
   app,
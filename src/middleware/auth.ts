@@ -1,10 +1,15 @@
 import { supabase, supabaseAuth, dbConfig } from '../config/database.js';
 import { apiKeysCache, balanceCache, cacheUtils } from '../config/cache.js';
+import { ApiKeyLimitError, assertApiKeyNotExpired, assertApiKeyBudget, assertApiKeyScope, assertApiKeySource, toApiKeyLimits } from '../services/api-key-limits.js';
+import { getClientIp } from '../services/client-ip.js';
+import { OrganizationAccessError, getMembership, requireMembership } from '../services/organizations.js';
+import { hashApiKey, getApiKeyPrefix, verifyApiKeyHash } from '../services/api-keys.js';
 import type { Context, Next } from 'hono';
 import type { 
   AuthData, 
   User, 
   ApiKey, 
+  ApiKeyScope,
   HonoVariables,
   ApiKeyWithWallet
 } from '../types/index.js';
@@ -26,6 +31,8 @@ interface TestAuthData {
 export async function authenticateUser(c: Context): Promise<AuthData> {
   const authHeader = c.req.header('Authorization');
   const apiKeyHeader = c.req.header('X-API-Key');
+  // Facturation sur le wallet d'une organisation (token Supabase uniquement, les clés d'organisation le sont déjà)
+  const organizationHeader = c.req.header('X-Makehub-Organization');
   
   // Méthode 1: Authentification par clé API
   if (apiKeyHeader) {
@@ -41,15 +48,117 @@ export async function authenticateUser(c: Context): Promise<AuthData> {
       return await authenticateWithApiKey(token);
     }
     
-    return await authenticateWithSupabaseToken(token);
+    return await authenticateWithSupabaseToken(token, organizationHeader);
   }
   
   throw new Error('No valid authentication method provided');
 }
 
+// Colonnes de la clé API et du wallet de son créateur
+const API_KEY_SELECT = `
+  id,
+  user_id,
+  organization_id,
+  api_key_hash,
+  api_key_prefix,
+  previous_api_key_hash,
+  previous_api_key_expires_at,
+  api_key_name,
+  is_active,
+  daily_spend_limit,
+  monthly_spend_limit,
+  allowed_models,
+  allowed_providers,
+  expires_at,
+  requests_per_minute,
+  tokens_per_minute,
+  scopes,
+  allowed_ips,
+  allowed_origins,
+  wallet!inner(user_id, balance, rate_limit_tier)
+`;
+
+/**
+ * Recherche une clé API active par son hash
+ * L'ancienne clé d'une rotation reste acceptée jusqu'à la fin du recouvrement (reportée sur expires_at)
+ * Les clés encore stockées en clair sont migrées (hash + préfixe, clair effacé) à leur première utilisation
+ */
+async function findApiKey(apiKey: string, apiKeyHash: string): Promise<ApiKeyWithWallet | null> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_SELECT)
+    .eq('api_key_hash', apiKeyHash)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error while fetching API key: ${error.message}`);
+  }
+
+  if (data) {
+    const apiKeyData = data as unknown as ApiKeyWithWallet;
+    return verifyApiKeyHash(apiKeyData.api_key_hash!, apiKeyHash) ? apiKeyData : null;
+  }
+
+  // Ancienne clé d'une rotation en période de recouvrement
+  const { data: rotatedData, error: rotatedError } = await supabase
+    .from('api_keys')
+    .select(API_KEY_SELECT)
+    .eq('previous_api_key_hash', apiKeyHash)
+    .gt('previous_api_key_expires_at', new Date().toISOString())
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (rotatedError) {
+    throw new Error(`Database error while fetching API key: ${rotatedError.message}`);
+  }
+
+  if (rotatedData) {
+    const rotatedKey = rotatedData as unknown as ApiKeyWithWallet;
+    if (!verifyApiKeyHash(rotatedKey.previous_api_key_hash!, apiKeyHash)) {
+      return null;
+    }
+
+    const overlapEnd = rotatedKey.previous_api_key_expires_at!;
+    const expiresAt = rotatedKey.expires_at && new Date(rotatedKey.expires_at) < new Date(overlapEnd) ? rotatedKey.expires_at : overlapEnd;
+    return { ...rotatedKey, api_key_prefix: getApiKeyPrefix(apiKey), expires_at: expiresAt };
+  }
+
+  // Clé historique stockée en clair
+  const { data: legacyData, error: legacyError } = await supabase
+    .from('api_keys')
+    .select(API_KEY_SELECT)
+    .eq('api_key', apiKey)
+    .is('api_key_hash', null)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (legacyError || !legacyData) {
+    return null;
+  }
+
+  const legacyKey = legacyData as unknown as ApiKeyWithWallet;
+  const { error: migrationError } = await supabase
+    .from('api_keys')
+    .update({
+      api_key_hash: apiKeyHash,
+      api_key_prefix: getApiKeyPrefix(apiKey),
+      api_key: null
+    })
+    .eq('id', legacyKey.id);
+
+  if (migrationError) {
+    console.error(`Failed to migrate API key ${legacyKey.id} to hashed storage:`, migrationError);
+  } else {
+    console.log(`🔐 API key ${legacyKey.id} migrated to hashed storage`);
+  }
+
+  return { ...legacyKey, api_key_hash: apiKeyHash, api_key_prefix: getApiKeyPrefix(apiKey) };
+}
+
 /**
  * Authentification par clé API
- * @param apiKey - Clé API
+ * @param apiKey - Clé API (jamais conservée au-delà de la requête : le cache est indexé par son hash)
  * @returns Données d'authentification
  */
 async function authenticateWithApiKey(apiKey: string): Promise<AuthData> {
@@ -57,6 +166,8 @@ async function authenticateWithApiKey(apiKey: string): Promise<AuthData> {
     throw new Error('API key must be a non-empty string');
   }
 
+  const apiKeyHash = hashApiKey(apiKey);
+
   // Mode test : accepter la clé de test directement (pour développement uniquement)
   // TODO: Supprimer cette section en production
   if (apiKey === 'test-api-key-123' && process.env.NODE_ENV !== 'production') {
@@ -68,48 +179,39 @@ async function authenticateWithApiKey(apiKey: string): Promise<AuthData> {
       apiKey: {
         id: 'test-api-key-id',
         name: 'Test API Key',
-        key: 'test-api-key-123'
+        prefix: getApiKeyPrefix(apiKey)
       },
       authMethod: 'api_key'
     };
     
     // Mettre en cache pour les prochaines requêtes
-    cacheUtils.setAuthData(apiKey, testUserData);
+    cacheUtils.setAuthData(apiKeyHash, testUserData);
     cacheUtils.setBalance(testUserData.user.id, testUserData.user.balance);
     
     return testUserData;
   }
   
   // Vérifier le cache d'abord
-  const cachedData = cacheUtils.getAuthData(apiKey);
+  const cachedData = cacheUtils.getAuthData(apiKeyHash);
   
   if (cachedData) {
+    // L'expiration peut survenir pendant la durée de vie du cache
+    if (cachedData.apiKey) {
+      assertApiKeyNotExpired(cachedData.apiKey);
+    }
+    // Le créateur d'une clé d'organisation peut avoir été retiré entre-temps
+    if (cachedData.organization && !(await getMembership(cachedData.user.id, cachedData.organization.id))) {
+      throw new Error('Invalid API key: key owner is no longer a member of the organization');
+    }
     return cachedData;
   }
   
-  
   // Requête combinée pour récupérer la clé API et les infos utilisateur
-  const { data, error } = await supabase
-    .from('api_keys')
-    .select(`
-      id,
-      user_id,
-      api_key,
-      api_key_name,
-      is_active,
-      wallet!inner(user_id, balance)
-    `)
-    .eq('api_key', apiKey)
-    .eq('is_active', true)
-    .single();
+  const apiKeyData = await findApiKey(apiKey, apiKeyHash);
   
-  
-  if (error || !data) {
+  if (!apiKeyData) {
     throw new Error('Invalid API key');
   }
-
-  // Type guard pour vérifier la structure des données
-  const apiKeyData = data as unknown as ApiKeyWithWallet;
   
   if (!apiKeyData.wallet) {
     throw new Error('User wallet not found');
@@ -118,19 +220,38 @@ async function authenticateWithApiKey(apiKey: string): Promise<AuthData> {
   const userData: AuthData = {
     user: {
       id: apiKeyData.user_id,
-      balance: apiKeyData.wallet.balance
+      balance: apiKeyData.wallet.balance,
+      tier: apiKeyData.wallet.rate_limit_tier
     },
     apiKey: {
       id: apiKeyData.id,
       name: apiKeyData.api_key_name,
-      key: apiKeyData.api_key
+      prefix: apiKeyData.api_key_prefix || getApiKeyPrefix(apiKey),
+      limits: toApiKeyLimits(apiKeyData)
     },
     authMethod: 'api_key'
   };
+
+  assertApiKeyNotExpired(userData.apiKey!);
+
+  // Clé d'organisation : requêtes attribuées au créateur, facturées sur le wallet de l'organisation
+  if (apiKeyData.organization_id) {
+    const organization = await getMembership(apiKeyData.user_id, apiKeyData.organization_id);
+    if (!organization) {
+      throw new Error('Invalid API key: key owner is no longer a member of the organization');
+    }
+
+    userData.organization = organization;
+    userData.user.balance = await checkUserBalance(apiKeyData.user_id, organization.id);
+  } else {
+    cacheUtils.setBalance(apiKeyData.user_id, apiKeyData.wallet.balance);
+  }
   
   // Mettre en cache
-  cacheUtils.setAuthData(apiKey, userData);
-  cacheUtils.setBalance(apiKeyData.user_id, apiKeyData.wallet.balance);
+  cacheUtils.setAuthData(apiKeyHash, userData);
+
+  // last_used_at est rafraîchi à chaque lecture en base, soit au plus une fois par durée de vie du cache
+  await updateApiKeyUsage(apiKeyData.user_id, apiKeyData.api_key_name);
   
   return userData;
 }
@@ -138,9 +259,10 @@ async function authenticateWithApiKey(apiKey: string): Promise<AuthData> {
 /**
  * Authentification par token Supabase
  * @param token - Token JWT Supabase
+ * @param organizationId - Organisation à facturer (en-tête X-Makehub-Organization)
  * @returns Données d'authentification
  */
-async function authenticateWithSupabaseToken(token: string): Promise<AuthData> {
+async function authenticateWithSupabaseToken(token: string, organizationId?: string): Promise<AuthData> {
   if (!token || typeof token !== 'string') {
     throw new Error('Supabase token must be a non-empty string');
   }
@@ -163,7 +285,7 @@ async function authenticateWithSupabaseToken(token: string): Promise<AuthData> {
   // Récupérer les infos du wallet
   const { data: walletData, error: walletError } = await supabase
     .from('wallet')
-    .select('balance')
+    .select('balance, rate_limit_tier')
     .eq('user_id', user.id)
     .single();
   
@@ -173,30 +295,37 @@ async function authenticateWithSupabaseToken(token: string): Promise<AuthData> {
   
   // Mettre en cache la balance
   cacheUtils.setBalance(user.id, walletData.balance);
+
+  const organization = organizationId ? await requireMembership(user.id, organizationId) : undefined;
   
   return {
     user: {
       id: user.id,
       email: user.email,
-      balance: walletData.balance
+      balance: organization ? await checkUserBalance(user.id, organization.id) : walletData.balance,
+      tier: walletData.rate_limit_tier
     },
     apiKey: undefined,
-    authMethod: 'supabase_token'
+    authMethod: 'supabase_token',
+    organization
   };
 }
 
 /**
  * Vérifie si l'utilisateur a suffisamment de fonds
  * @param userId - ID de l'utilisateur
+ * @param organizationId - Organisation facturée (son wallet remplace celui de l'utilisateur)
  * @returns Balance actuelle
  */
-export async function checkUserBalance(userId: string): Promise<number> {
+export async function checkUserBalance(userId: string, organizationId: string | null = null): Promise<number> {
   if (!userId || typeof userId !== 'string') {
     throw new Error('User ID must be a non-empty string');
   }
 
+  const balanceKey = cacheUtils.billingBalanceKey(userId, organizationId);
+
   // Vérifier le cache d'abord
-  const cachedBalance = cacheUtils.getBalance(userId);
+  const cachedBalance = cacheUtils.getBalance(balanceKey);
   
   if (cachedBalance !== undefined) {
     // Si la balance est >= 1, le cache reste valide
@@ -210,7 +339,7 @@ export async function checkUserBalance(userId: string): Promise<number> {
   const { data, error } = await supabase
     .from('wallet')
     .select('balance')
-    .eq('user_id', userId)
+    .eq(organizationId ? 'organization_id' : 'user_id', organizationId || userId)
     .single();
   
   if (error || !data) {
@@ -224,7 +353,7 @@ export async function checkUserBalance(userId: string): Promise<number> {
   }
   
   // Mettre en cache
-  cacheUtils.setBalance(userId, balance);
+  cacheUtils.setBalance(balanceKey, balance);
   
   return balance;
 }
@@ -233,18 +362,20 @@ export async function checkUserBalance(userId: string): Promise<number> {
  * Vérifie si l'utilisateur peut effectuer une requête
  * @param userId - ID de l'utilisateur
  * @param estimatedCost - Coût estimé de la requête (optionnel)
+ * @param organizationId - Organisation facturée (optionnel)
  * @returns Informations sur la capacité de paiement
  */
 export async function checkPaymentCapability(
   userId: string, 
-  estimatedCost?: number
+  estimatedCost?: number,
+  organizationId: string | null = null
 ): Promise<{
   canPay: boolean;
   currentBalance: number;
   requiredBalance: number;
   estimatedCost?: number;
 }> {
-  const currentBalance = await checkUserBalance(userId);
+  const currentBalance = await checkUserBalance(userId, organizationId);
   const requiredBalance = dbConfig.minimalFund;
   const canPayMinimal = currentBalance >= requiredBalance;
   
@@ -272,6 +403,7 @@ interface AuthMiddlewareOptions {
   checkBalance?: boolean;
   requiredBalance?: number;
   estimatedCost?: number;
+  scope?: ApiKeyScope;  // Permission exigée des clés restreintes (sans scope : accès complet requis)
 }
 
 /**
@@ -282,19 +414,31 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
   const { 
     checkBalance = true, 
     requiredBalance = dbConfig.minimalFund,
-    estimatedCost 
+    estimatedCost,
+    scope
   } = options;
 
   return async (c: Context<{ Variables: HonoVariables }>, next: Next) => {
     try {
       // 1. Authentification
       const authData = await authenticateUser(c);
+
+      // 2. Adresse IP et origine autorisées pour la clé API
+      assertApiKeySource(authData, {
+        ip: getClientIp(c),
+        origin: c.req.header('Origin') || null,
+        path: c.req.path
+      });
+
+      // 3. Permissions de la clé API restreinte
+      assertApiKeyScope(authData, scope);
       
-      // 2. Vérification des fonds si demandée
+      // 4. Vérification des fonds si demandée
       if (checkBalance) {
         const paymentCheck = await checkPaymentCapability(
           authData.user.id, 
-          estimatedCost
+          estimatedCost,
+          authData.organization?.id
         );
         
         if (!paymentCheck.canPay) {
@@ -311,6 +455,9 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
         
         // Mettre à jour la balance dans authData
         authData.user.balance = paymentCheck.currentBalance;
+
+        // Plafonds journalier/mensuel propres à la clé API
+        await assertApiKeyBudget(authData);
       }
       
       // Ajouter les données d'auth au contexte
@@ -320,6 +467,17 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
       await next();
     } catch (error) {
       console.error('Authentication error:', error);
+
+      // Restrictions de la clé API ou accès à l'organisation : type d'erreur dédié (402 budget, 403 accès)
+      if (error instanceof ApiKeyLimitError || error instanceof OrganizationAccessError) {
+        return c.json({
+          error: {
+            message: error.message,
+            type: error.code,
+            timestamp: new Date().toISOString()
+          }
+        }, error.status);
+      }
       
       let message = 'Authentication failed';
       let status = 401;
@@ -371,6 +529,48 @@ export const authMiddleware = createAuthMiddleware();
  */
 export const authOnlyMiddleware = createAuthMiddleware({ checkBalance: false });
 
+/**
+ * Variante de createAuthMiddleware acceptant les clés restreintes disposant de la permission `scope`
+ * @param scope - Permission exigée
+ * @param options - Options du middleware
+ */
+export function createScopedAuthMiddleware(scope: ApiKeyScope, options: Omit<AuthMiddlewareOptions, 'scope'> = {}) {
+  return createAuthMiddleware({ ...options, scope });
+}
+
+/**
+ * Vérifie si un utilisateur fait partie des administrateurs (variable ADMIN_USER_IDS, séparée par des virgules)
+ * @param userId - ID de l'utilisateur
+ */
+export function isAdminUser(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(userId);
+}
+
+/**
+ * Middleware réservant une route aux administrateurs
+ * Doit être placé après un middleware d'authentification
+ */
+export async function adminMiddleware(c: Context<{ Variables: HonoVariables }>, next: Next) {
+  const authData = c.get('auth');
+
+  if (!authData || !isAdminUser(authData.user.id)) {
+    return c.json({
+      error: {
+        message: 'Admin access required',
+        type: 'forbidden_error',
+        timestamp: new Date().toISOString()
+      }
+    }, 403);
+  }
+
+  await next();
+}
+
 /**
  * Met à jour le timestamp last_used_at d'une clé API (asynchrone)
  * @param userId - ID de l'utilisateur
@@ -416,10 +616,10 @@ export function invalidateUserAuth(userId: string): void {
  * @param apiKey - Clé API
  */
 export function invalidateApiKeyAuth(apiKey: string): void {
-  cacheUtils.invalidateApiKey(apiKey);
+  cacheUtils.invalidateApiKey(hashApiKey(apiKey));
   
   if (process.env.NODE_ENV === 'development') {
-    console.log(`API key cache invalidated: ${apiKey.substring(0, 8)}...`);
+    console.log(`API key cache invalidated: ${getApiKeyPrefix(apiKey)}...`);
   }
 }
 
@@ -429,7 +629,7 @@ export function invalidateApiKeyAuth(apiKey: string): void {
  * @returns Données d'auth ou undefined si pas en cache
  */
 export function getCachedAuthData(apiKey: string): AuthData | undefined {
-  return cacheUtils.getAuthData(apiKey);
+  return cacheUtils.getAuthData(hashApiKey(apiKey));
 }
 
 /**
@@ -0,0 +1,136 @@
+import { getRateLimitTier, rateLimitEnabled } from '../config/rate-limits.js';
+import { getRateLimitStore } from '../services/rate-limit-store.js';
+import type { TokenBucketRequest, TokenBucketResult } from '../services/rate-limit-store.js';
+import type { Context, Next } from 'hono';
+import type { AuthData, HonoVariables } from '../types/index.js';
+
+// Champs du body dont le contenu est envoyé au modèle (chat, completion legacy, messages Anthropic, embeddings)
+const PROMPT_FIELDS = ['messages', 'prompt', 'system', 'input', 'tools'];
+
+/**
+ * Estime les tokens d'une requête à partir du body JSON (≈ 4 caractères par token, plus max_tokens)
+ * Les routes sans body JSON (GET, upload multipart) ne consomment que le seau des requêtes
+ */
+async function estimateRequestTokens(c: Context): Promise<number> {
+  if (c.req.method !== 'POST' || !c.req.header('Content-Type')?.includes('application/json')) {
+    return 0;
+  }
+
+  try {
+    // Le body parsé est mis en cache par Hono : la route peut le relire
+    const body = await c.req.json();
+    if (!body || typeof body !== 'object') {
+      return 0;
+    }
+
+    const promptChars = PROMPT_FIELDS.reduce((total, field) =>
+      body[field] !== undefined ? total + JSON.stringify(body[field]).length : total, 0);
+    const maxTokens = typeof body.max_tokens === 'number' ? body.max_tokens : 0;
+
+    return Math.ceil(promptChars / 4) + maxTokens;
+  } catch {
+    // Body invalide : l'erreur de validation sera renvoyée par la route
+    return 0;
+  }
+}
+
+/**
+ * Seaux à consommer : palier de l'utilisateur s'il en a un, plus les limites propres à la clé API si définies
+ */
+function getBuckets(authData: AuthData, tokens: number): TokenBucketRequest[] {
+  const tier = getRateLimitTier(authData.user.tier);
+  const buckets: TokenBucketRequest[] = [];
+
+  if (tier) {
+    buckets.push({ key: `user:${authData.user.id}:requests`, capacity: tier.requests_per_minute, cost: 1 });
+    if (tokens > 0) {
+      buckets.push({ key: `user:${authData.user.id}:tokens`, capacity: tier.tokens_per_minute, cost: tokens });
+    }
+  }
+
+  const keyLimits = authData.apiKey?.limits;
+  if (keyLimits?.requests_per_minute) {
+    buckets.push({ key: `apikey:${authData.apiKey!.id}:requests`, capacity: keyLimits.requests_per_minute, cost: 1 });
+  }
+  if (keyLimits?.tokens_per_minute && tokens > 0) {
+    buckets.push({ key: `apikey:${authData.apiKey!.id}:tokens`, capacity: keyLimits.tokens_per_minute, cost: tokens });
+  }
+
+  return buckets;
+}
+
+/**
+ * Durée au format OpenAI (ex: 20ms, 1s, 6m0s)
+ */
+function formatResetDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+/**
+ * En-têtes x-ratelimit-* du seau le plus restrictif de chaque dimension (requests, tokens)
+ */
+function setRateLimitHeaders(c: Context, results: TokenBucketResult[]): void {
+  for (const dimension of ['requests', 'tokens'] as const) {
+    const dimensionResults = results.filter(result => result.key.endsWith(`:${dimension}`));
+    if (dimensionResults.length === 0) {
+      continue;
+    }
+
+    const mostRestrictive = dimensionResults.reduce((current, result) =>
+      result.remaining < current.remaining ? result : current);
+
+    c.header(`x-ratelimit-limit-${dimension}`, String(mostRestrictive.limit));
+    c.header(`x-ratelimit-remaining-${dimension}`, String(mostRestrictive.remaining));
+    c.header(`x-ratelimit-reset-${dimension}`, formatResetDuration(mostRestrictive.resetMs));
+  }
+}
+
+/**
+ * Middleware de rate limiting (token bucket requests/min et tokens/min)
+ * Doit être placé après un middleware d'authentification
+ */
+export async function rateLimitMiddleware(c: Context<{ Variables: HonoVariables }>, next: Next) {
+  const authData = c.get('auth');
+
+  if (!rateLimitEnabled || !authData) {
+    await next();
+    return;
+  }
+
+  const tokens = await estimateRequestTokens(c);
+  const buckets = getBuckets(authData, tokens);
+
+  // Ni palier ni limites de clé : rien à compter
+  if (buckets.length === 0) {
+    await next();
+    return;
+  }
+
+  const { allowed, results } = await getRateLimitStore().consume(buckets);
+
+  setRateLimitHeaders(c, results);
+
+  if (!allowed) {
+    const retryAfterMs = Math.max(...results.map(result => result.retryAfterMs));
+    const exceeded = results.filter(result => result.retryAfterMs > 0).map(result => result.key.split(':').pop());
+    const scope = results.some(result => result.retryAfterMs > 0 && result.key.startsWith('apikey:')) ? 'API key' : 'user';
+
+    c.header('Retry-After', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+
+    return c.json({
+      error: {
+        message: `Rate limit exceeded for ${scope} (${[...new Set(exceeded)].join(', ')} per minute). Retry after ${formatResetDuration(retryAfterMs)}.`,
+        type: 'rate_limit_error',
+        code: 'rate_limit_exceeded',
+        timestamp: new Date().toISOString()
+      }
+    }, 429);
+  }
+
+  await next();
+}
@@ -0,0 +1,277 @@
+import { Hono } from 'hono';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import { batchService, type BatchItem } from '../services/batch-service.js';
+import { getFile, getFileContent } from '../services/files.js';
+import { z } from 'zod';
+import {
+  chatCompletionSchema,
+  handleValidationError,
+  handleBusinessError
+} from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, ApiError, StandardRequest } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const batches = new Hono<{ Variables: HonoVariables }>();
+
+// Nombre maximal de requêtes par batch (limite OpenAI)
+const MAX_BATCH_REQUESTS = 50000;
+
+// Schéma de validation pour la création d'un batch
+const createBatchSchema = z.object({
+  input_file_id: z.string(),
+  endpoint: z.literal('/v1/chat/completions'),
+  completion_window: z.literal('24h'),
+  metadata: z.record(z.string()).optional()
+});
+
+// Schéma d'une ligne du fichier d'entrée
+const batchLineSchema = z.object({
+  custom_id: z.string().min(1),
+  method: z.literal('POST'),
+  url: z.string(),
+  body: chatCompletionSchema
+});
+
+// Middleware d'authentification et de rate limiting pour toutes les routes
+batches.use('*', createScopedAuthMiddleware('chat:write'), rateLimitMiddleware);
+
+/**
+ * Réponse 404 pour un batch introuvable
+ */
+function batchNotFound(batchId: string): ApiError {
+  return {
+    error: {
+      message: `No such batch: ${batchId}`,
+      type: 'invalid_request_error'
+    }
+  };
+}
+
+/**
+ * Parse et valide le contenu JSONL d'un fichier d'entrée
+ * @returns Les requêtes converties, ou la liste des erreurs par ligne
+ */
+function parseBatchInput(content: string, endpoint: string): { items: BatchItem[]; errors: Array<{ line: number; message: string }> } {
+  const items: BatchItem[] = [];
+  const errors: Array<{ line: number; message: string }> = [];
+  const seenIds = new Set<string>();
+
+  content.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const lineNumber = index + 1;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      errors.push({ line: lineNumber, message: 'Invalid JSON' });
+      return;
+    }
+
+    const result = batchLineSchema.safeParse(parsed);
+    if (!result.success) {
+      errors.push({
+        line: lineNumber,
+        message: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ')
+      });
+      return;
+    }
+
+    const { custom_id, url, body } = result.data;
+
+    if (url !== endpoint) {
+      errors.push({ line: lineNumber, message: `url must be ${endpoint}` });
+      return;
+    }
+
+    if (seenIds.has(custom_id)) {
+      errors.push({ line: lineNumber, message: `Duplicate custom_id: ${custom_id}` });
+      return;
+    }
+    seenIds.add(custom_id);
+
+    // Le streaming n'a pas de sens en batch : il est forcé à false à l'exécution
+    const request: StandardRequest = {
+      model: body.model,
+      messages: body.messages,
+      stream: false,
+      max_tokens: body.max_tokens,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      frequency_penalty: body.frequency_penalty,
+      presence_penalty: body.presence_penalty,
+      stop: body.stop,
+      tools: body.tools,
+      tool_choice: body.tool_choice,
+      provider: body.provider,
+      user: body.user
+    };
+
+    items.push({ custom_id, request });
+  });
+
+  return { items, errors };
+}
+
+/**
+ * POST /v1/batches
+ * Crée un batch à partir d'un fichier JSONL uploadé via /v1/files
+ */
+batches.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    // 1. Validation de la requête
+    const body = await c.req.json();
+    const validatedRequest = createBatchSchema.parse(body);
+
+    // 2. Récupérer les données d'authentification
+    const authData = c.get('auth');
+
+    // 3. Charger le fichier d'entrée
+    const file = await getFile(authData.user.id, validatedRequest.input_file_id);
+    const content = file ? await getFileContent(authData.user.id, validatedRequest.input_file_id) : null;
+
+    if (!file || content === null) {
+      return c.json({
+        error: {
+          message: `No such file: ${validatedRequest.input_file_id}`,
+          type: 'invalid_request_error'
+        }
+      }, 404);
+    }
+
+    if (file.purpose !== 'batch') {
+      return c.json({
+        error: {
+          message: "Input file must have purpose 'batch'",
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    // 4. Valider chaque ligne
+    const { items, errors } = parseBatchInput(content, validatedRequest.endpoint);
+
+    if (errors.length > 0) {
+      return c.json({
+        error: {
+          message: `Invalid batch input file: ${errors.length} invalid line(s)`,
+          type: 'invalid_request_error',
+          details: errors.slice(0, 100)
+        }
+      }, 400);
+    }
+
+    if (items.length === 0 || items.length > MAX_BATCH_REQUESTS) {
+      return c.json({
+        error: {
+          message: `Batch input file must contain between 1 and ${MAX_BATCH_REQUESTS} requests`,
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    // 5. Créer le batch (exécution en arrière-plan)
+    const batch = await batchService.createBatch(authData, validatedRequest, items);
+
+    return c.json(batch);
+
+  } catch (error) {
+    console.error('Create batch error:', error);
+
+    if (error instanceof z.ZodError) {
+      const validationError = handleValidationError(error);
+      return c.json(validationError, 400);
+    }
+
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * GET /v1/batches
+ * Liste les batches de l'utilisateur
+ */
+batches.get('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const limitParam = parseInt(c.req.query('limit') || '20', 10);
+    const limit = !isNaN(limitParam) ? Math.min(Math.max(limitParam, 1), 100) : 20;
+
+    const data = await batchService.listBatches(authData.user.id, limit);
+
+    return c.json({
+      object: 'list',
+      data,
+      first_id: data[0]?.id || null,
+      last_id: data[data.length - 1]?.id || null,
+      has_more: data.length === limit
+    });
+
+  } catch (error) {
+    console.error('List batches error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * GET /v1/batches/:id
+ * Statut d'un batch
+ */
+batches.get('/:id', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const batchId = c.req.param('id');
+    const batch = await batchService.getBatch(authData.user.id, batchId);
+
+    if (!batch) {
+      return c.json(batchNotFound(batchId), 404);
+    }
+
+    return c.json(batch);
+
+  } catch (error) {
+    console.error('Get batch error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * POST /v1/batches/:id/cancel
+ * Annule un batch en cours
+ */
+batches.post('/:id/cancel', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const batchId = c.req.param('id');
+    const batch = await batchService.cancelBatch(authData.user.id, batchId);
+
+    if (!batch) {
+      return c.json(batchNotFound(batchId), 404);
+    }
+
+    return c.json(batch);
+
+  } catch (error) {
+    console.error('Cancel batch error:', error);
+
+    if (error instanceof Error && error.message.includes('Invalid batch status')) {
+      return c.json({
+        error: {
+          message: error.message,
+          type: 'invalid_request_error'
+        }
+      }, 409);
+    }
+
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+export default batches;
@@ -1,8 +1,10 @@
 import { Hono } from 'hono';
 import { stream } from 'hono/streaming';
-import { authMiddleware } from '../middleware/auth.js';
-import { requestHandler } from '../services/request-handler.js';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import { requestHandler, StreamError } from '../services/request-handler.js';
 import { triggerWebhookAsync } from '../services/webhook-trigger.js';
+import { getApiKeyRestrictions } from '../services/api-key-limits.js';
 import { z } from 'zod';
 import type { Context } from 'hono';
 import type { 
@@ -14,7 +16,8 @@ import type {
   ModelsList,
   ExtendedModelsList,
   CostEstimate,
-  ApiError
+  ApiError,
+  RoutingMetadata
 } from '../types/index.js';
 
 // Créer l'instance Hono avec les variables typées
@@ -27,7 +30,7 @@ type HttpStatus402 = 402;
 type HttpStatus500 = 500;
 
 // Schéma de validation pour les requêtes de chat completion
-const chatCompletionSchema = z.object({
+export const chatCompletionSchema = z.object({
   model: z.string().optional(),
   messages: z.array(z.object({
     role: z.enum(['system', 'user', 'assistant', 'tool']),
@@ -78,6 +81,7 @@ const chatCompletionSchema = z.object({
     })
   ]).optional(),
   provider: z.union([z.string(), z.array(z.string())]).optional(),
+  hedge_after_ms: z.number().int().positive().optional(),
   user: z.string().optional()
 });
 
@@ -97,6 +101,7 @@ const completionSchema = z.object({
   best_of: z.number().int().min(1).optional(),
   logit_bias: z.object({}).passthrough().optional(),
   provider: z.union([z.string(), z.array(z.string())]).optional(),
+  hedge_after_ms: z.number().int().positive().optional(),
   user: z.string().optional(),
   suffix: z.string().optional()
 });
@@ -106,21 +111,25 @@ type ValidatedChatRequest = z.infer<typeof chatCompletionSchema>;
 type ValidatedCompletionRequest = z.infer<typeof completionSchema>;
 
 // Fonctions utilitaires pour la vérification de type
-function isAsyncGenerator(obj: any): obj is AsyncGenerator<ChatCompletionChunk> {
+export function isAsyncGenerator(obj: any): obj is AsyncGenerator<ChatCompletionChunk> {
   return typeof obj === 'object' && obj !== null && Symbol.asyncIterator in obj;
 }
 
-function isChatCompletion(obj: any): obj is ChatCompletion {
+export function isChatCompletion(obj: any): obj is ChatCompletion {
   return typeof obj === 'object' && obj !== null && !(Symbol.asyncIterator in obj);
 }
 
-// Middleware d'authentification pour toutes les routes
-chat.use('*', authMiddleware);
+// Middleware d'authentification (permission propre à chaque route pour les clés restreintes) et de rate limiting
+const chatAuthMiddleware = createScopedAuthMiddleware('chat:write');
+chat.use('/completions', chatAuthMiddleware, rateLimitMiddleware);
+chat.use('/completion', chatAuthMiddleware, rateLimitMiddleware);
+chat.use('/models', createScopedAuthMiddleware('models:read'), rateLimitMiddleware);
+chat.use('/estimate', createScopedAuthMiddleware('estimate:read'), rateLimitMiddleware);
 
 /**
  * Gère les erreurs de validation Zod
  */
-function handleValidationError(error: z.ZodError): ApiError {
+export function handleValidationError(error: z.ZodError): ApiError {
   return {
     error: {
       message: 'Invalid request format',
@@ -137,15 +146,17 @@ function handleValidationError(error: z.ZodError): ApiError {
 /**
  * Gère les erreurs métier de l'application
  */
-function handleBusinessError(error: unknown): { response: ApiError; status: 400 | 401 | 402 | 500 } {
+export function handleBusinessError(error: unknown): { response: ApiError; status: 400 | 401 | 402 | 403 | 500 | 503 } {
   if (error && typeof error === 'object' && 'status' in error) {
     const businessError = error as { status: number; message: string; code?: string; provider?: string };
     
     // Mapper les status codes vers des littéraux
-    let status: 400 | 401 | 402 | 500;
+    let status: 400 | 401 | 402 | 403 | 500 | 503;
     if (businessError.status === 400) status = 400;
     else if (businessError.status === 401) status = 401;
     else if (businessError.status === 402) status = 402;
+    else if (businessError.status === 403) status = 403;
+    else if (businessError.status === 503) status = 503;
     else if (businessError.status >= 500) status = 500;
     else status = 400; // Default fallback
     
@@ -172,10 +183,41 @@ function handleBusinessError(error: unknown): { response: ApiError; status: 400
   };
 }
 
+/**
+ * Formate une erreur de streaming en événement SSE `error` compatible OpenAI
+ * Partagé par tous les endpoints streaming pour que le client distingue un échec d'une réponse vide
+ */
+export function formatStreamError(error: unknown): string {
+  const status = error && typeof error === 'object' && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : 500;
+
+  let type = 'api_error';
+  if (status === 400) type = 'invalid_request_error';
+  else if (status === 401) type = 'authentication_error';
+  else if (status === 402) type = 'insufficient_quota';
+  else if (status === 403) type = 'permission_error';
+  else if (status === 404) type = 'not_found_error';
+  else if (status === 429) type = 'rate_limit_error';
+  else if (status === 503) type = 'service_unavailable';
+
+  const payload: ApiError = {
+    error: {
+      message: error instanceof Error ? error.message : 'Streaming error',
+      type,
+      code: error instanceof StreamError ? error.code : undefined,
+      provider: error instanceof StreamError ? error.provider : undefined,
+      request_id: error instanceof StreamError ? error.requestId : undefined
+    }
+  };
+
+  return `event: error\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
 /**
  * Extrait le ratio performance/prix de l'en-tête
  */
-function getPricePerformanceRatio(c: Context): number {
+export function getPricePerformanceRatio(c: Context): number {
   const headerValue = c.req.header('X-Price-Performance-Ratio');
   if (headerValue) {
     const ratio = parseInt(headerValue, 10);
@@ -186,10 +228,49 @@ function getPricePerformanceRatio(c: Context): number {
   return 50; // Valeur par défaut
 }
 
+/**
+ * Indique si le failover mid-stream est demandé (en-tête X-Stream-Failover)
+ */
+export function isStreamFailoverEnabled(c: Context): boolean {
+  const headerValue = c.req.header('X-Stream-Failover');
+  return headerValue !== undefined && ['true', '1', 'yes'].includes(headerValue.toLowerCase());
+}
+
+/**
+ * Extrait le délai de hedging depuis l'en-tête X-Hedge-After-Ms ou le body (hedge_after_ms)
+ */
+export function getHedgeAfterMs(c: Context, body: { hedge_after_ms?: number }): number | undefined {
+  const headerValue = c.req.header('X-Hedge-After-Ms');
+  if (headerValue) {
+    const delay = parseInt(headerValue, 10);
+    if (!isNaN(delay) && delay > 0) {
+      return delay;
+    }
+  }
+  return body.hedge_after_ms;
+}
+
+/**
+ * Crée le contrôleur d'annulation propagé aux adapters (_abortSignal)
+ * Il est déclenché par la déconnexion du client ; les routes streaming le relient aussi à stream.onAbort
+ */
+export function createClientAbortController(c: Context): AbortController {
+  const controller = new AbortController();
+  const clientSignal = c.req.raw.signal;
+
+  if (clientSignal.aborted) {
+    controller.abort();
+  } else {
+    clientSignal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+
+  return controller;
+}
+
 /**
  * Extrait la liste des providers depuis l'en-tête, la query ou le body
  */
-function getProviders(c: Context, body: any): string | string[] | undefined {
+export function getProviders(c: Context, body: any): string | string[] | undefined {
   // 1. Header (priorité la plus haute)
   const headerValue = c.req.header('X-Provider');
   if (headerValue) {
@@ -216,6 +297,36 @@ function getProviders(c: Context, body: any): string | string[] | undefined {
   return body.provider;
 }
 
+/**
+ * Expose la décision de routage dans les en-têtes X-Makehub-*
+ * En streaming, seuls l'ID de requête et le score famille sont connus avant le premier chunk
+ */
+export function setRoutingHeaders(c: Context, metadata: RoutingMetadata | undefined): void {
+  if (!metadata) {
+    return;
+  }
+
+  c.header('X-Makehub-Request-Id', metadata.request_id);
+  if (metadata.provider) {
+    c.header('X-Makehub-Provider', metadata.provider);
+  }
+  if (metadata.model) {
+    c.header('X-Makehub-Model', metadata.model);
+  }
+  if (metadata.attempts > 0) {
+    c.header('X-Makehub-Attempts', String(metadata.attempts));
+  }
+  if (metadata.family) {
+    c.header('X-Makehub-Family', metadata.family);
+  }
+  if (metadata.family_score !== null) {
+    c.header('X-Makehub-Family-Score', String(metadata.family_score));
+  }
+  if (metadata.estimated_cost !== null) {
+    c.header('X-Makehub-Estimated-Cost', metadata.estimated_cost.toFixed(6));
+  }
+}
+
 /**
  * POST /chat/completions
  * Endpoint principal pour les requêtes de chat completion
@@ -233,6 +344,7 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
     // 3. Récupérer les paramètres avancés
     const ratioSp = getPricePerformanceRatio(c);
     const providers = getProviders(c, validatedRequest);
+    const abortController = createClientAbortController(c);
 
     // 4. Convertir vers le format StandardRequest
     const standardRequest: StandardRequest = {
@@ -248,7 +360,10 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
       tools: validatedRequest.tools,
       tool_choice: validatedRequest.tool_choice,
       provider: providers,
-      user: validatedRequest.user
+      user: validatedRequest.user,
+      _streamFailover: isStreamFailoverEnabled(c),
+      _hedgeAfterMs: getHedgeAfterMs(c, validatedRequest),
+      _abortSignal: abortController.signal
     };
     
     // 5. Traiter la requête
@@ -261,11 +376,14 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
       c.header('Cache-control', 'no-cache');
       c.header('Connection', 'keep-alive');
       c.header('X-Accel-Buffering', 'no'); // Nginx
+      setRoutingHeaders(c, standardRequest._routingMetadata);
       
       // Supprimer explicitement l'en-tête Content-Length pour le streaming
       c.header('Content-Length', undefined);
       
       return stream(c, async (stream) => {
+        stream.onAbort(() => abortController.abort());
+
         try {
           // Initialiser le stream SSE
           stream.writeln('');
@@ -273,11 +391,26 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
           // Type guard pour vérifier que c'est un générateur
           if (isAsyncGenerator(result)) {
             const generator = result;
+            let lastChunk: ChatCompletionChunk | null = null;
             
             for await (const chunk of generator) {
+              lastChunk = chunk;
               const sseData = `data: ${JSON.stringify(chunk)}\n\n`;
               stream.write(sseData);
             }
+
+            // Dernier chunk : décision de routage finale (provider, tentatives, coût)
+            if (lastChunk && standardRequest._routingMetadata?.provider) {
+              const routingChunk: ChatCompletionChunk = {
+                id: lastChunk.id,
+                object: 'chat.completion.chunk',
+                created: lastChunk.created,
+                model: lastChunk.model,
+                choices: [],
+                makehub: standardRequest._routingMetadata
+              };
+              stream.write(`data: ${JSON.stringify(routingChunk)}\n\n`);
+            }
           } else {
             throw new Error('Expected streaming response but got static response');
           }
@@ -286,19 +419,7 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
           stream.write('data: [DONE]\n\n');
         } catch (error) {
           console.error('Streaming error:', error);
-          const errorChunk: ChatCompletionChunk = {
-            id: 'error',
-            object: 'chat.completion.chunk',
-            created: Math.floor(Date.now() / 1000),
-            model: validatedRequest.model || 'unknown',
-            choices: [{
-              index: 0,
-              delta: {},
-              finish_reason: null
-            }],
-            usage: undefined
-          };
-          stream.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
+          stream.write(formatStreamError(error));
           stream.write('data: [DONE]\n\n');
         } finally {
           // Ne déclencher le webhook que si le streaming s'est bien passé (pas d'erreur)
@@ -308,6 +429,7 @@ chat.post('/completions', async (c: Context<{ Variables: HonoVariables }>) => {
     } else {
       // Type guard pour vérifier que c'est une ChatCompletion
       if (isChatCompletion(result)) {
+        setRoutingHeaders(c, standardRequest._routingMetadata);
         return c.json(result);
       } else {
         throw new Error('Expected static response but got streaming response');
@@ -348,6 +470,7 @@ chat.post('/completion', async (c: Context<{ Variables: HonoVariables }>) => {
     
     // Traiter chaque prompt séparément si multiple
     const results: any[] = [];
+    const abortController = createClientAbortController(c);
     
     for (const prompt of prompts) {
       // Convertir le prompt en format chat completion
@@ -364,7 +487,10 @@ chat.post('/completion', async (c: Context<{ Variables: HonoVariables }>) => {
         stop: validatedRequest.stop,
         stream: !!validatedRequest.stream,
         provider: validatedRequest.provider,
-        user: validatedRequest.user
+        user: validatedRequest.user,
+        _streamFailover: isStreamFailoverEnabled(c),
+        _hedgeAfterMs: getHedgeAfterMs(c, validatedRequest),
+        _abortSignal: abortController.signal
       };
       
       // 4. Traiter la requête avec le handler existant
@@ -386,6 +512,8 @@ chat.post('/completion', async (c: Context<{ Variables: HonoVariables }>) => {
         c.header('Content-Length', undefined);
         
         return stream(c, async (stream) => {
+          stream.onAbort(() => abortController.abort());
+
           try {
             stream.writeln('');
             
@@ -415,19 +543,7 @@ chat.post('/completion', async (c: Context<{ Variables: HonoVariables }>) => {
             stream.write('data: [DONE]\n\n');
           } catch (error) {
             console.error('Completion streaming error:', error);
-            const errorChunk = {
-              id: 'error',
-              object: 'text_completion',
-              created: Math.floor(Date.now() / 1000),
-              model: validatedRequest.model || 'unknown',
-              choices: [{
-                text: '',
-                index: 0,
-                logprobs: null,
-                finish_reason: null
-              }]
-            };
-            stream.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
+            stream.write(formatStreamError(error));
             stream.write('data: [DONE]\n\n');
           } finally {
             // Ne déclencher le webhook que si le streaming s'est bien passé (pas d'erreur)
@@ -564,7 +680,8 @@ chat.post('/estimate', async (c: Context<{ Variables: HonoVariables }>) => {
     // Obtenir les combinaisons de providers
     const { filterProviders } = await import('../services/models.js');
     const combinations = await filterProviders(standardRequest, authData.user.id, authData.userPreferences, {
-      ratio_sp: ratioSp
+      ratio_sp: ratioSp,
+      ...getApiKeyRestrictions(authData)
       // providers est déjà dans standardRequest, donc pas besoin de le passer ici
     });
 
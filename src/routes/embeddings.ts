@@ -0,0 +1,84 @@
+import { Hono } from 'hono';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import { requestHandler } from '../services/request-handler.js';
+import { z } from 'zod';
+import {
+  handleValidationError,
+  handleBusinessError,
+  getPricePerformanceRatio,
+  getProviders
+} from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, EmbeddingRequest } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const embeddings = new Hono<{ Variables: HonoVariables }>();
+
+// Schéma de validation pour les requêtes d'embeddings (format OpenAI)
+const embeddingsSchema = z.object({
+  model: z.string(),
+  input: z.union([
+    z.string().min(1),
+    z.array(z.string().min(1)).min(1).max(2048)
+  ]),
+  encoding_format: z.enum(['float', 'base64']).optional(),
+  dimensions: z.number().int().positive().optional(),
+  input_type: z.string().optional(),
+  provider: z.union([z.string(), z.array(z.string())]).optional(),
+  user: z.string().optional()
+});
+
+// Type pour les requêtes validées
+type ValidatedEmbeddingsRequest = z.infer<typeof embeddingsSchema>;
+
+// Middleware d'authentification et de rate limiting pour toutes les routes
+embeddings.use('*', createScopedAuthMiddleware('chat:write'), rateLimitMiddleware);
+
+/**
+ * POST /v1/embeddings
+ * Génère des embeddings avec le même routage et la même facturation que le chat
+ */
+embeddings.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    // 1. Validation de la requête
+    const body = await c.req.json();
+    const validatedRequest: ValidatedEmbeddingsRequest = embeddingsSchema.parse(body);
+
+    // 2. Récupérer les données d'authentification
+    const authData = c.get('auth');
+
+    // 3. Récupérer les paramètres avancés
+    const ratioSp = getPricePerformanceRatio(c);
+    const providers = getProviders(c, validatedRequest);
+
+    // 4. Convertir vers le format EmbeddingRequest
+    const embeddingRequest: EmbeddingRequest = {
+      model: validatedRequest.model,
+      input: validatedRequest.input,
+      encoding_format: validatedRequest.encoding_format,
+      dimensions: validatedRequest.dimensions,
+      input_type: validatedRequest.input_type,
+      provider: providers,
+      user: validatedRequest.user
+    };
+
+    // 5. Traiter la requête
+    const result = await requestHandler.handleEmbeddings(embeddingRequest, authData, { ratio_sp: ratioSp });
+
+    return c.json(result);
+
+  } catch (error) {
+    console.error('Embeddings error:', error);
+
+    if (error instanceof z.ZodError) {
+      const validationError = handleValidationError(error);
+      return c.json(validationError, 400);
+    }
+
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+export default embeddings;
@@ -0,0 +1,342 @@
+import { Hono } from 'hono';
+import { authOnlyMiddleware, adminMiddleware } from '../middleware/auth.js';
+import {
+  listFamilies,
+  getFamily,
+  createFamily,
+  updateFamily,
+  setFamilyActive,
+  listFamilyVersions,
+  restoreFamilyVersion,
+  validateFamilyModels
+} from '../services/family-admin.js';
+import { USER_FAMILY_PREFIX } from '../services/family-routing.js';
+import { z } from 'zod';
+import { handleValidationError, handleBusinessError } from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, ApiError, FamilyConfig } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const families = new Hono<{ Variables: HonoVariables }>();
+
+// Schéma d'une tranche de score
+const scoreRangeSchema = z.object({
+  min_score: z.number().int().min(1).max(100),
+  max_score: z.number().int().min(1).max(100),
+  target_model: z.string().min(1),
+  reason: z.string().min(1),
+  providers: z.array(z.string().min(1)).min(1).optional(),
+  ratio_sp: z.number().int().min(0).max(100).optional()
+}).refine(range => range.min_score <= range.max_score, {
+  message: 'min_score must be less than or equal to max_score'
+});
+
+// Schéma de routing_config : les tranches doivent couvrir 1-100 sans trou ni chevauchement
+const routingConfigSchema = z.object({
+  score_ranges: z.array(scoreRangeSchema).min(1),
+  fallback_model: z.string().min(1),
+  fallback_provider: z.string().min(1),
+  cache_duration_minutes: z.number().min(0),
+  evaluation_timeout_ms: z.number().int().positive(),
+  evaluation_prompt: z.string().optional()
+}).superRefine((config, ctx) => {
+  const ranges = [...config.score_ranges].sort((a, b) => a.min_score - b.min_score);
+
+  if (ranges[0].min_score !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['score_ranges'], message: 'score_ranges must start at 1' });
+  }
+
+  if (ranges[ranges.length - 1].max_score !== 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['score_ranges'], message: 'score_ranges must end at 100' });
+  }
+
+  for (let i = 1; i < ranges.length; i++) {
+    const previous = ranges[i - 1];
+    const current = ranges[i];
+
+    if (current.min_score <= previous.max_score) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['score_ranges'],
+        message: `Overlap between ranges ${previous.min_score}-${previous.max_score} and ${current.min_score}-${current.max_score}`
+      });
+    } else if (current.min_score !== previous.max_score + 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['score_ranges'],
+        message: `Gap between ${previous.max_score} and ${current.min_score}`
+      });
+    }
+  }
+});
+
+// Schéma de création d'une famille (partagé avec les familles privées)
+export const familySchema = z.object({
+  family_id: z.string().min(1).max(100),
+  display_name: z.string().min(1),
+  description: z.string().optional(),
+  evaluation_model_id: z.string().min(1),
+  evaluation_provider: z.string().min(1),
+  is_active: z.boolean().optional(),
+  routing_config: routingConfigSchema
+});
+
+// Les familles globales ne peuvent pas utiliser le préfixe réservé aux familles privées
+const createFamilySchema = familySchema.refine(family => !family.family_id.startsWith(USER_FAMILY_PREFIX), {
+  message: `family_id cannot start with "${USER_FAMILY_PREFIX}" (reserved for user families)`,
+  path: ['family_id']
+});
+
+// Schéma de mise à jour (tous les champs optionnels, routing_config remplacé en entier)
+export const updateFamilySchema = familySchema.omit({ family_id: true }).partial();
+
+// Les family_id contiennent un "/" (ex: makehub-sota/family), d'où le paramètre {.+}
+const FAMILY_ID = ':id{.+}';
+
+// Authentification sans vérification de balance, puis réservé aux administrateurs
+families.use('*', authOnlyMiddleware, adminMiddleware);
+
+/**
+ * Réponse 404 pour une famille introuvable
+ */
+export function familyNotFound(familyId: string): ApiError {
+  return {
+    error: {
+      message: `No such family: ${familyId}`,
+      type: 'not_found_error'
+    }
+  };
+}
+
+/**
+ * Réponse 400 pour des modèles référencés inexistants
+ */
+export function invalidFamilyModels(errors: string[]): ApiError {
+  return {
+    error: {
+      message: 'Invalid family configuration',
+      type: 'invalid_request_error',
+      details: errors
+    }
+  };
+}
+
+/**
+ * Gère les erreurs communes des routes de gestion des familles
+ */
+export function handleFamilyError(c: Context<{ Variables: HonoVariables }>, error: unknown) {
+  if (error instanceof z.ZodError) {
+    return c.json(handleValidationError(error), 400);
+  }
+
+  if (error instanceof Error && error.message.startsWith('Invalid family configuration: ')) {
+    return c.json(invalidFamilyModels(error.message.replace('Invalid family configuration: ', '').split('; ')), 400);
+  }
+
+  if (error instanceof Error && error.message.startsWith('Family already exists')) {
+    return c.json({
+      error: {
+        message: error.message,
+        type: 'invalid_request_error'
+      }
+    }, 409);
+  }
+
+  if (error instanceof Error && error.message.startsWith('Family limit reached')) {
+    return c.json({
+      error: {
+        message: error.message,
+        type: 'limit_exceeded_error'
+      }
+    }, 403);
+  }
+
+  const { response, status } = handleBusinessError(error);
+  return c.json(response, status);
+}
+
+/**
+ * GET /v1/admin/families
+ * Liste les familles (?include_inactive=false pour ne garder que les actives)
+ */
+families.get('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const includeInactive = c.req.query('include_inactive') !== 'false';
+    const data = await listFamilies(includeInactive);
+
+    return c.json({
+      object: 'list',
+      data
+    });
+
+  } catch (error) {
+    console.error('List families error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/admin/families
+ * Crée une famille
+ */
+families.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const body = await c.req.json();
+    const validatedRequest = createFamilySchema.parse(body);
+    const authData = c.get('auth');
+
+    const config: FamilyConfig = {
+      ...validatedRequest,
+      is_active: validatedRequest.is_active ?? true
+    };
+
+    const errors = await validateFamilyModels(config);
+    if (errors.length > 0) {
+      return c.json(invalidFamilyModels(errors), 400);
+    }
+
+    const family = await createFamily(config, authData.user.id);
+    return c.json(family, 201);
+
+  } catch (error) {
+    console.error('Create family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * GET /v1/admin/families/:id/versions
+ * Historique des versions d'une famille
+ */
+families.get(`/${FAMILY_ID}/versions`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const family = await getFamily(familyId);
+
+    if (!family) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    const data = await listFamilyVersions(familyId);
+
+    return c.json({
+      object: 'list',
+      current_version: family.version,
+      data
+    });
+
+  } catch (error) {
+    console.error('List family versions error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/admin/families/:id/versions/:version/restore
+ * Restaure une version précédente (crée une nouvelle version)
+ */
+families.post(`/${FAMILY_ID}/versions/:version/restore`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const version = parseInt(c.req.param('version'), 10);
+    const authData = c.get('auth');
+
+    if (isNaN(version) || version < 1) {
+      return c.json({
+        error: {
+          message: 'version must be a positive integer',
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    const family = await restoreFamilyVersion(familyId, version, authData.user.id);
+
+    if (!family) {
+      return c.json({
+        error: {
+          message: `No such family version: ${familyId} v${version}`,
+          type: 'not_found_error'
+        }
+      }, 404);
+    }
+
+    return c.json(family);
+
+  } catch (error) {
+    console.error('Restore family version error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/admin/families/:id/activate
+ * POST /v1/admin/families/:id/deactivate
+ */
+for (const action of ['activate', 'deactivate'] as const) {
+  families.post(`/${FAMILY_ID}/${action}`, async (c: Context<{ Variables: HonoVariables }>) => {
+    try {
+      const familyId = c.req.param('id');
+      const authData = c.get('auth');
+      const family = await setFamilyActive(familyId, action === 'activate', authData.user.id);
+
+      if (!family) {
+        return c.json(familyNotFound(familyId), 404);
+      }
+
+      return c.json(family);
+
+    } catch (error) {
+      console.error(`Family ${action} error:`, error);
+      return handleFamilyError(c, error);
+    }
+  });
+}
+
+/**
+ * GET /v1/admin/families/:id
+ * Détail d'une famille (active ou non)
+ */
+families.get(`/${FAMILY_ID}`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const family = await getFamily(familyId);
+
+    if (!family) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    return c.json(family);
+
+  } catch (error) {
+    console.error('Get family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * PUT /v1/admin/families/:id
+ * Met à jour une famille (crée une nouvelle version)
+ */
+families.put(`/${FAMILY_ID}`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const body = await c.req.json();
+    const validatedRequest = updateFamilySchema.parse(body);
+    const authData = c.get('auth');
+
+    const family = await updateFamily(familyId, validatedRequest, authData.user.id, validateFamilyModels);
+
+    if (!family) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    return c.json(family);
+
+  } catch (error) {
+    console.error('Update family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+export default families;
@@ -0,0 +1,171 @@
+import { Hono } from 'hono';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import {
+  createFile,
+  getFile,
+  getFileContent,
+  listFiles,
+  deleteFile,
+  MAX_FILE_BYTES
+} from '../services/files.js';
+import { handleBusinessError } from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, ApiError } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const files = new Hono<{ Variables: HonoVariables }>();
+
+// Middleware d'authentification et de rate limiting pour toutes les routes
+files.use('*', createScopedAuthMiddleware('chat:write'), rateLimitMiddleware);
+
+/**
+ * Réponse 404 pour un fichier introuvable
+ */
+function fileNotFound(fileId: string): ApiError {
+  return {
+    error: {
+      message: `No such file: ${fileId}`,
+      type: 'invalid_request_error'
+    }
+  };
+}
+
+/**
+ * POST /v1/files
+ * Upload d'un fichier JSONL (multipart/form-data, champs "file" et "purpose")
+ */
+files.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const body = await c.req.parseBody();
+    const file = body['file'];
+    const purpose = body['purpose'];
+
+    if (purpose !== 'batch') {
+      return c.json({
+        error: {
+          message: "Invalid purpose: only 'batch' is supported",
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    if (!(file instanceof File)) {
+      return c.json({
+        error: {
+          message: "Missing 'file' field in multipart body",
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return c.json({
+        error: {
+          message: `File exceeds the maximum size of ${MAX_FILE_BYTES} bytes`,
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    const content = await file.text();
+    const fileObject = await createFile(authData.user.id, file.name || 'input.jsonl', 'batch', content);
+
+    return c.json(fileObject);
+
+  } catch (error) {
+    console.error('File upload error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * GET /v1/files
+ * Liste les fichiers de l'utilisateur
+ */
+files.get('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const data = await listFiles(authData.user.id, c.req.query('purpose'));
+
+    return c.json({ object: 'list', data });
+
+  } catch (error) {
+    console.error('List files error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * GET /v1/files/:id
+ * Métadonnées d'un fichier
+ */
+files.get('/:id', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const fileId = c.req.param('id');
+    const fileObject = await getFile(authData.user.id, fileId);
+
+    if (!fileObject) {
+      return c.json(fileNotFound(fileId), 404);
+    }
+
+    return c.json(fileObject);
+
+  } catch (error) {
+    console.error('Get file error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * GET /v1/files/:id/content
+ * Contenu brut d'un fichier (JSONL)
+ */
+files.get('/:id/content', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const fileId = c.req.param('id');
+    const content = await getFileContent(authData.user.id, fileId);
+
+    if (content === null) {
+      return c.json(fileNotFound(fileId), 404);
+    }
+
+    return c.body(content, 200, { 'Content-Type': 'application/jsonl' });
+
+  } catch (error) {
+    console.error('Get file content error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+/**
+ * DELETE /v1/files/:id
+ * Supprime un fichier
+ */
+files.delete('/:id', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const fileId = c.req.param('id');
+    const deleted = await deleteFile(authData.user.id, fileId);
+
+    if (!deleted) {
+      return c.json(fileNotFound(fileId), 404);
+    }
+
+    return c.json({ id: fileId, object: 'file', deleted: true });
+
+  } catch (error) {
+    console.error('Delete file error:', error);
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+export default files;
@@ -0,0 +1,226 @@
+import { Hono } from 'hono';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import {
+  listApiKeys,
+  createApiKey,
+  renameApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  listApiKeyDenials,
+  DEFAULT_ROTATION_OVERLAP_SECONDS
+} from '../services/api-keys.js';
+import { API_KEY_SCOPES } from '../services/api-key-limits.js';
+import { parseCidr } from '../services/client-ip.js';
+import { z } from 'zod';
+import { handleValidationError, handleBusinessError } from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, ApiError } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const keys = new Hono<{ Variables: HonoVariables }>();
+
+// Recouvrement maximal d'une rotation : 7 jours
+const MAX_ROTATION_OVERLAP_SECONDS = 7 * 86400;
+
+const nameSchema = z.string().min(1).max(100);
+
+const createKeySchema = z.object({
+  name: nameSchema,
+  organization_id: z.string().uuid().optional(),
+  daily_spend_limit: z.number().positive().nullable().optional(),
+  monthly_spend_limit: z.number().positive().nullable().optional(),
+  allowed_models: z.array(z.string()).min(1).nullable().optional(),
+  allowed_providers: z.array(z.string()).min(1).nullable().optional(),
+  expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+  requests_per_minute: z.number().int().positive().nullable().optional(),
+  tokens_per_minute: z.number().int().positive().nullable().optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).nullable().optional(),
+  allowed_ips: z.array(z.string().refine(cidr => parseCidr(cidr) !== null, 'Invalid IP address or CIDR range')).min(1).nullable().optional(),
+  allowed_origins: z.array(z.string().regex(/^https?:\/\/(\*\.)?[^/*]+$/, 'Origin must look like https://app.example.com or https://*.example.com')).min(1).nullable().optional()
+});
+
+const renameKeySchema = z.object({
+  name: nameSchema
+});
+
+const rotateKeySchema = z.object({
+  overlap_seconds: z.number().int().min(0).max(MAX_ROTATION_OVERLAP_SECONDS).default(DEFAULT_ROTATION_OVERLAP_SECONDS)
+});
+
+// Authentification sans vérification de balance (clés restreintes : permission keys:admin)
+keys.use('*', createScopedAuthMiddleware('keys:admin', { checkBalance: false }));
+
+/**
+ * Réponse 404 pour une clé introuvable (ou d'un autre utilisateur)
+ */
+function keyNotFound(keyId: string): ApiError {
+  return {
+    error: {
+      message: `No such API key: ${keyId}`,
+      type: 'not_found_error'
+    }
+  };
+}
+
+/**
+ * Gère les erreurs communes des routes de gestion des clés
+ */
+function handleKeyError(c: Context<{ Variables: HonoVariables }>, error: unknown) {
+  if (error instanceof z.ZodError) {
+    return c.json(handleValidationError(error), 400);
+  }
+
+  if (error instanceof Error && error.message.startsWith('API key name already in use')) {
+    return c.json({
+      error: {
+        message: error.message,
+        type: 'invalid_request_error'
+      }
+    }, 409);
+  }
+
+  const { response, status } = handleBusinessError(error);
+  return c.json(response, status);
+}
+
+/**
+ * GET /v1/keys
+ * Liste les clés actives de l'utilisateur (préfixe, last_used_at, dépense du jour et du mois)
+ */
+keys.get('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const data = await listApiKeys(authData.user.id);
+
+    return c.json({
+      object: 'list',
+      data
+    });
+
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/keys
+ * Crée une clé ; la clé en clair n'est renvoyée que dans cette réponse
+ */
+keys.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const body = await c.req.json();
+    const validatedRequest = createKeySchema.parse(body);
+    const authData = c.get('auth');
+
+    // Une clé restreinte ne peut créer que des clés au moins aussi restreintes qu'elle
+    const apiKey = await createApiKey(authData.user.id, validatedRequest, authData.apiKey?.limits);
+    return c.json(apiKey, 201);
+
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+/**
+ * PATCH /v1/keys/:id
+ * Renomme une clé
+ */
+keys.patch('/:id', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const keyId = c.req.param('id');
+    const body = await c.req.json();
+    const validatedRequest = renameKeySchema.parse(body);
+    const authData = c.get('auth');
+
+    const apiKey = await renameApiKey(authData.user.id, keyId, validatedRequest.name, authData.apiKey?.limits);
+    if (!apiKey) {
+      return c.json(keyNotFound(keyId), 404);
+    }
+
+    return c.json(apiKey);
+
+  } catch (error) {
+    console.error('Rename API key error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/keys/:id/rotate
+ * Génère une nouvelle clé ; l'ancienne reste valide overlap_seconds (24h par défaut)
+ */
+keys.post('/:id/rotate', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const keyId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const validatedRequest = rotateKeySchema.parse(body);
+    const authData = c.get('auth');
+
+    const apiKey = await rotateApiKey(authData.user.id, keyId, validatedRequest.overlap_seconds, authData.apiKey?.limits);
+    if (!apiKey) {
+      return c.json(keyNotFound(keyId), 404);
+    }
+
+    return c.json(apiKey);
+
+  } catch (error) {
+    console.error('Rotate API key error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+/**
+ * GET /v1/keys/:id/denials
+ * Dernières requêtes refusées pour une IP ou une origine non autorisée (?limit=, 100 par défaut)
+ */
+keys.get('/:id/denials', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const keyId = c.req.param('id');
+    const authData = c.get('auth');
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '100', 10) || 100, 1), 1000);
+
+    const denials = await listApiKeyDenials(authData.user.id, keyId, limit, authData.apiKey?.limits);
+    if (!denials) {
+      return c.json(keyNotFound(keyId), 404);
+    }
+
+    return c.json({
+      object: 'list',
+      data: denials
+    });
+
+  } catch (error) {
+    console.error('List API key denials error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+/**
+ * DELETE /v1/keys/:id
+ * Révoque une clé (effet immédiat, y compris sur le cache d'authentification)
+ */
+keys.delete('/:id', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const keyId = c.req.param('id');
+    const authData = c.get('auth');
+
+    const revoked = await revokeApiKey(authData.user.id, keyId, authData.apiKey?.limits);
+    if (!revoked) {
+      return c.json(keyNotFound(keyId), 404);
+    }
+
+    return c.json({
+      id: keyId,
+      object: 'api_key',
+      deleted: true
+    });
+
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return handleKeyError(c, error);
+  }
+});
+
+export default keys;
@@ -0,0 +1,634 @@
+import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import { requestHandler } from '../services/request-handler.js';
+import { z } from 'zod';
+import {
+  isAsyncGenerator,
+  isChatCompletion,
+  getPricePerformanceRatio,
+  getProviders,
+  isStreamFailoverEnabled,
+  getHedgeAfterMs,
+  setRoutingHeaders,
+  createClientAbortController
+} from './chat.js';
+import type { Context } from 'hono';
+import type {
+  HonoVariables,
+  StandardRequest,
+  ChatMessage,
+  ChatMessageContent,
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionChoice,
+  Tool,
+  ToolChoice,
+  AnthropicStopReason,
+  AnthropicContentBlock,
+  AnthropicUsage,
+  AnthropicMessageResponse,
+  AnthropicStreamEvent,
+  AnthropicApiError,
+  Usage
+} from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const messages = new Hono<{ Variables: HonoVariables }>();
+
+// Schéma cache_control (format Anthropic)
+const cacheControlSchema = z.object({
+  type: z.literal('ephemeral'),
+  ttl: z.string().optional()
+});
+
+// Blocs de contenu acceptés dans les résultats d'outils
+const toolResultContentSchema = z.union([
+  z.string(),
+  z.array(z.object({
+    type: z.string(),
+    text: z.string().optional()
+  }).passthrough())
+]);
+
+// Schéma d'un bloc de contenu Anthropic
+const contentBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+    cache_control: cacheControlSchema.optional()
+  }),
+  z.object({
+    type: z.literal('image'),
+    source: z.union([
+      z.object({
+        type: z.literal('base64'),
+        media_type: z.string(),
+        data: z.string()
+      }),
+      z.object({
+        type: z.literal('url'),
+        url: z.string()
+      })
+    ]),
+    cache_control: cacheControlSchema.optional()
+  }),
+  z.object({
+    type: z.literal('tool_use'),
+    id: z.string(),
+    name: z.string(),
+    input: z.record(z.any()),
+    cache_control: cacheControlSchema.optional()
+  }),
+  z.object({
+    type: z.literal('tool_result'),
+    tool_use_id: z.string(),
+    content: toolResultContentSchema.optional(),
+    is_error: z.boolean().optional(),
+    cache_control: cacheControlSchema.optional()
+  }),
+  z.object({
+    type: z.literal('thinking'),
+    thinking: z.string(),
+    signature: z.string().optional()
+  })
+]);
+
+// Schéma de validation pour les requêtes /v1/messages
+const messagesSchema = z.object({
+  model: z.string(),
+  max_tokens: z.number().int().positive(),
+  system: z.union([
+    z.string(),
+    z.array(z.object({
+      type: z.literal('text'),
+      text: z.string(),
+      cache_control: cacheControlSchema.optional()
+    }))
+  ]).optional(),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.union([z.string(), z.array(contentBlockSchema)])
+  })).refine(
+    // Aucun équivalent dans le format standard : refusé plutôt que supprimé de l'historique
+    messages => !messages.some(message => Array.isArray(message.content) && message.content.some(block => block.type === 'thinking')),
+    'thinking blocks are not supported by this gateway; remove them from the conversation history'
+  ),
+  stream: z.boolean().optional().default(false),
+  temperature: z.number().min(0).max(1).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  // Non transmis aux providers (format OpenAI) : refusé plutôt qu'ignoré
+  top_k: z.number().int().positive().optional()
+    .refine(value => value === undefined, 'top_k is not supported by this gateway; use temperature or top_p'),
+  stop_sequences: z.array(z.string()).optional(),
+  tools: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    input_schema: z.object({}).passthrough(),
+    cache_control: cacheControlSchema.optional()
+  })).optional(),
+  tool_choice: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('auto') }),
+    z.object({ type: z.literal('any') }),
+    z.object({ type: z.literal('none') }),
+    z.object({ type: z.literal('tool'), name: z.string() })
+  ]).optional(),
+  metadata: z.object({
+    user_id: z.string().optional()
+  }).optional(),
+  provider: z.union([z.string(), z.array(z.string())]).optional()
+});
+
+// Type pour les requêtes validées
+type ValidatedMessagesRequest = z.infer<typeof messagesSchema>;
+type ValidatedContentBlock = z.infer<typeof contentBlockSchema>;
+
+// Middleware d'authentification et de rate limiting pour toutes les routes
+messages.use('*', createScopedAuthMiddleware('chat:write'), rateLimitMiddleware);
+
+/**
+ * Construit une erreur au format Anthropic
+ */
+function anthropicError(type: string, message: string): AnthropicApiError {
+  return { type: 'error', error: { type, message } };
+}
+
+/**
+ * Mappe un status HTTP vers un type d'erreur Anthropic
+ */
+function errorTypeForStatus(status: number): string {
+  if (status === 400) return 'invalid_request_error';
+  if (status === 401) return 'authentication_error';
+  if (status === 402) return 'billing_error';
+  if (status === 403) return 'permission_error';
+  if (status === 404) return 'not_found_error';
+  if (status === 429) return 'rate_limit_error';
+  return 'api_error';
+}
+
+/**
+ * Gère les erreurs métier et les convertit au format Anthropic
+ */
+function handleMessagesError(error: unknown): { response: AnthropicApiError; status: 400 | 401 | 402 | 403 | 404 | 429 | 500 | 503 } {
+  if (error instanceof z.ZodError) {
+    const details = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+    return {
+      response: anthropicError('invalid_request_error', `Invalid request format: ${details}`),
+      status: 400
+    };
+  }
+
+  if (error && typeof error === 'object' && 'status' in error) {
+    const businessError = error as { status: number; message: string };
+
+    let status: 400 | 401 | 402 | 403 | 404 | 429 | 500 | 503;
+    if (businessError.status === 400) status = 400;
+    else if (businessError.status === 401) status = 401;
+    else if (businessError.status === 402) status = 402;
+    else if (businessError.status === 403) status = 403;
+    else if (businessError.status === 404) status = 404;
+    else if (businessError.status === 429) status = 429;
+    else if (businessError.status === 503) status = 503;
+    else if (businessError.status >= 500) status = 500;
+    else status = 400;
+
+    return {
+      response: anthropicError(errorTypeForStatus(status), businessError.message),
+      status
+    };
+  }
+
+  return {
+    response: anthropicError('api_error', error instanceof Error ? error.message : 'Internal server error'),
+    status: 500
+  };
+}
+
+/**
+ * Convertit le contenu d'un tool_result en texte
+ */
+function toolResultToText(content: z.infer<typeof toolResultContentSchema> | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .filter(block => block.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text)
+    .join('\n');
+}
+
+/**
+ * Convertit un bloc texte/image Anthropic en partie de message standard
+ */
+function toContentPart(block: ValidatedContentBlock): ChatMessageContent | null {
+  if (block.type === 'text') {
+    const part: ChatMessageContent = { type: 'text', text: block.text };
+    if (block.cache_control) part.cache_control = block.cache_control;
+    return part;
+  }
+
+  if (block.type === 'image') {
+    const url = block.source.type === 'base64'
+      ? `data:${block.source.media_type};base64,${block.source.data}`
+      : block.source.url;
+    const part: ChatMessageContent = { type: 'image_url', image_url: { url } };
+    if (block.cache_control) part.cache_control = block.cache_control;
+    return part;
+  }
+
+  return null;
+}
+
+/**
+ * Convertit les messages Anthropic (system + messages) vers le format standard
+ */
+function convertMessages(request: ValidatedMessagesRequest): ChatMessage[] {
+  const result: ChatMessage[] = [];
+
+  // 1. Prompt système (string ou blocs avec cache_control)
+  if (typeof request.system === 'string') {
+    if (request.system.trim()) {
+      result.push({ role: 'system', content: request.system });
+    }
+  } else if (request.system && request.system.length > 0) {
+    result.push({
+      role: 'system',
+      content: request.system.map(block => {
+        const part: ChatMessageContent = { type: 'text', text: block.text };
+        if (block.cache_control) part.cache_control = block.cache_control;
+        return part;
+      })
+    });
+  }
+
+  // 2. Messages de la conversation
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      // Les blocs texte deviennent le contenu, les tool_use deviennent des tool_calls
+      const text = message.content
+        .filter((block): block is Extract<ValidatedContentBlock, { type: 'text' }> => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      const toolCalls = message.content
+        .filter((block): block is Extract<ValidatedContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function' as const,
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input)
+          }
+        }));
+
+      result.push({
+        role: 'assistant',
+        content: text,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      });
+      continue;
+    }
+
+    // Message utilisateur : les tool_result deviennent des messages 'tool' placés en premier
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        const text = toolResultToText(block.content);
+        result.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${text}` : text
+        });
+      }
+    }
+
+    const parts = message.content
+      .map(toContentPart)
+      .filter((part): part is ChatMessageContent => part !== null);
+
+    if (parts.length > 0) {
+      result.push({ role: 'user', content: parts });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convertit les outils Anthropic vers le format standard
+ */
+function convertTools(tools: ValidatedMessagesRequest['tools']): Tool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  return tools.map(tool => {
+    const converted: Tool = {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema
+      }
+    };
+    if (tool.cache_control) converted.cache_control = tool.cache_control;
+    return converted;
+  });
+}
+
+/**
+ * Convertit le tool_choice Anthropic vers le format standard
+ */
+function convertToolChoice(toolChoice: ValidatedMessagesRequest['tool_choice']): ToolChoice | undefined {
+  if (!toolChoice) return undefined;
+
+  switch (toolChoice.type) {
+    case 'auto':
+      return 'auto';
+    case 'any':
+      return 'required';
+    case 'none':
+      return 'none';
+    case 'tool':
+      return { type: 'function', function: { name: toolChoice.name } };
+  }
+}
+
+/**
+ * Mappe un finish_reason standard vers un stop_reason Anthropic
+ */
+function mapStopReason(reason: ChatCompletionChoice['finish_reason'] | undefined): AnthropicStopReason | null {
+  if (!reason) return null;
+  const mappings: Record<string, AnthropicStopReason> = {
+    'stop': 'end_turn',
+    'length': 'max_tokens',
+    'tool_calls': 'tool_use',
+    'content_filter': 'end_turn'
+  };
+  return mappings[reason] || 'end_turn';
+}
+
+/**
+ * Parse les arguments JSON d'un tool call (objet vide si invalide)
+ */
+function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convertit une ChatCompletion vers une réponse Anthropic Messages
+ */
+function toAnthropicMessage(completion: ChatCompletion): AnthropicMessageResponse {
+  const choice = completion.choices?.[0];
+  const content: AnthropicContentBlock[] = [];
+
+  if (choice?.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+
+  for (const toolCall of choice?.message?.tool_calls || []) {
+    content.push({
+      type: 'tool_use',
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: parseToolArguments(toolCall.function.arguments)
+    });
+  }
+
+  return {
+    id: completion.id,
+    type: 'message',
+    role: 'assistant',
+    model: completion.model,
+    content,
+    stop_reason: mapStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: toAnthropicUsage(completion.usage)
+  };
+}
+
+/**
+ * Convertit l'usage standard vers l'usage Anthropic (tokens de cache inclus s'ils sont connus)
+ */
+function toAnthropicUsage(usage: Usage | undefined): AnthropicUsage {
+  return {
+    input_tokens: usage?.input_tokens ?? usage?.prompt_tokens ?? 0,
+    output_tokens: usage?.output_tokens ?? usage?.completion_tokens ?? 0,
+    cache_read_input_tokens: usage?.cached_tokens || undefined,
+    cache_creation_input_tokens: usage?.cache_creation_tokens || undefined
+  };
+}
+
+/**
+ * Formate un événement SSE Anthropic
+ */
+function formatEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Convertit un flux de ChatCompletionChunk en événements SSE Anthropic.
+ * Les blocs de contenu sont ouverts/fermés au fil des deltas (texte ou tool_use).
+ */
+async function* toAnthropicEvents(
+  generator: AsyncGenerator<ChatCompletionChunk>,
+  requestedModel: string
+): AsyncGenerator<AnthropicStreamEvent> {
+  let started = false;
+  let blockIndex = -1;
+  let openBlock: 'text' | 'tool_use' | null = null;
+  let openToolIndex: number | null = null;
+  let stopReason: AnthropicStopReason | null = null;
+  let usage: ChatCompletionChunk['usage'];
+
+  const start = (chunk?: ChatCompletionChunk): AnthropicStreamEvent => {
+    started = true;
+    return {
+      type: 'message_start',
+      message: {
+        id: chunk?.id || `msg_${Date.now()}`,
+        type: 'message',
+        role: 'assistant',
+        model: chunk?.model || requestedModel,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    };
+  };
+
+  for await (const chunk of generator) {
+    if (!started) {
+      yield start(chunk);
+      yield { type: 'ping' };
+    }
+
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+
+    // Contenu texte
+    if (choice.delta?.content) {
+      if (openBlock !== 'text') {
+        if (openBlock) yield { type: 'content_block_stop', index: blockIndex };
+        blockIndex++;
+        openBlock = 'text';
+        openToolIndex = null;
+        yield { type: 'content_block_start', index: blockIndex, content_block: { type: 'text', text: '' } };
+      }
+      yield {
+        type: 'content_block_delta',
+        index: blockIndex,
+        delta: { type: 'text_delta', text: choice.delta.content }
+      };
+    }
+
+    // Tool calls : un nouveau bloc par index de tool call
+    for (const toolCall of choice.delta?.tool_calls || []) {
+      const toolIndex = toolCall.index ?? 0;
+      if (openBlock !== 'tool_use' || openToolIndex !== toolIndex) {
+        if (openBlock) yield { type: 'content_block_stop', index: blockIndex };
+        blockIndex++;
+        openBlock = 'tool_use';
+        openToolIndex = toolIndex;
+        yield {
+          type: 'content_block_start',
+          index: blockIndex,
+          content_block: {
+            type: 'tool_use',
+            id: toolCall.id || `toolu_${Date.now()}_${toolIndex}`,
+            name: toolCall.function?.name || '',
+            input: {}
+          }
+        };
+      }
+      if (toolCall.function?.arguments) {
+        yield {
+          type: 'content_block_delta',
+          index: blockIndex,
+          delta: { type: 'input_json_delta', partial_json: toolCall.function.arguments }
+        };
+      }
+    }
+
+    // Conserver la première raison d'arrêt reçue
+    if (choice.finish_reason && !stopReason) {
+      stopReason = mapStopReason(choice.finish_reason);
+    }
+  }
+
+  if (!started) {
+    yield start();
+  }
+
+  if (openBlock) {
+    yield { type: 'content_block_stop', index: blockIndex };
+  }
+
+  yield {
+    type: 'message_delta',
+    delta: { stop_reason: stopReason || 'end_turn', stop_sequence: null },
+    // L'usage n'est connu qu'en fin de flux (message_start porte des compteurs à 0)
+    usage: toAnthropicUsage(usage)
+  };
+  yield { type: 'message_stop' };
+}
+
+/**
+ * POST /v1/messages
+ * Endpoint compatible Anthropic Messages, routé vers n'importe quel modèle de la table models
+ */
+messages.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    // 1. Validation de la requête
+    const body = await c.req.json();
+    const validatedRequest: ValidatedMessagesRequest = messagesSchema.parse(body);
+
+    // 2. Récupérer les données d'authentification
+    const authData = c.get('auth');
+
+    // 3. Récupérer les paramètres avancés
+    const ratioSp = getPricePerformanceRatio(c);
+    const providers = getProviders(c, validatedRequest);
+    const abortController = createClientAbortController(c);
+
+    // 4. Convertir vers le format StandardRequest
+    const standardRequest: StandardRequest = {
+      model: validatedRequest.model,
+      messages: convertMessages(validatedRequest),
+      stream: !!validatedRequest.stream,
+      max_tokens: validatedRequest.max_tokens,
+      temperature: validatedRequest.temperature,
+      top_p: validatedRequest.top_p,
+      stop: validatedRequest.stop_sequences,
+      tools: convertTools(validatedRequest.tools),
+      tool_choice: convertToolChoice(validatedRequest.tool_choice),
+      provider: providers,
+      user: validatedRequest.metadata?.user_id,
+      _streamFailover: isStreamFailoverEnabled(c),
+      _hedgeAfterMs: getHedgeAfterMs(c, {}),
+      _abortSignal: abortController.signal
+    };
+
+    // 5. Traiter la requête
+    const result = await requestHandler.handleChatCompletion(standardRequest, authData, { ratio_sp: ratioSp });
+
+    // 6. Retourner la réponse selon le mode
+    if (validatedRequest.stream) {
+      c.header('Content-Type', 'text/event-stream');
+      c.header('Cache-Control', 'no-cache');
+      c.header('Connection', 'keep-alive');
+      c.header('X-Accel-Buffering', 'no');
+      setRoutingHeaders(c, standardRequest._routingMetadata);
+
+      // Supprimer explicitement l'en-tête Content-Length pour le streaming
+      c.header('Content-Length', undefined);
+
+      return stream(c, async (stream) => {
+        stream.onAbort(() => abortController.abort());
+
+        try {
+          if (!isAsyncGenerator(result)) {
+            throw new Error('Expected streaming response but got static response');
+          }
+
+          for await (const event of toAnthropicEvents(result, validatedRequest.model)) {
+            await stream.write(formatEvent(event));
+          }
+        } catch (error) {
+          console.error('Messages streaming error:', error);
+          await stream.write(formatEvent({
+            type: 'error',
+            error: {
+              type: 'api_error',
+              message: error instanceof Error ? error.message : 'Streaming error'
+            }
+          }));
+        }
+      });
+    }
+
+    if (isChatCompletion(result)) {
+      setRoutingHeaders(c, standardRequest._routingMetadata);
+      return c.json(toAnthropicMessage(result));
+    }
+    throw new Error('Expected static response but got streaming response');
+
+  } catch (error) {
+    console.error('Messages error:', error);
+    const { response, status } = handleMessagesError(error);
+    return c.json(response, status);
+  }
+});
+
+export default messages;
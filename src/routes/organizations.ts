@@ -0,0 +1,270 @@
+import { Hono } from 'hono';
+import { authOnlyMiddleware, createScopedAuthMiddleware } from '../middleware/auth.js';
+import {
+  listUserOrganizations,
+  createOrganization,
+  getOrganization,
+  addMember,
+  updateMemberRole,
+  removeMember,
+  getOrganizationUsage,
+  getMembership,
+  requireMembership,
+  ORGANIZATION_MANAGER_ROLES
+} from '../services/organizations.js';
+import { z } from 'zod';
+import { handleValidationError, handleBusinessError } from './chat.js';
+import type { Context } from 'hono';
+import type { HonoVariables, ApiError } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const organizations = new Hono<{ Variables: HonoVariables }>();
+
+const roleSchema = z.enum(['owner', 'admin', 'member']);
+
+const createOrganizationSchema = z.object({
+  name: z.string().min(1).max(100)
+});
+
+const addMemberSchema = z.object({
+  user_id: z.string().uuid(),
+  role: roleSchema.default('member')
+});
+
+const updateMemberSchema = z.object({
+  role: roleSchema
+});
+
+// Authentification sans vérification de balance, par route : seule la consultation
+// de la dépense est ouverte aux clés restreintes (permission usage:read)
+const usageAuthMiddleware = createScopedAuthMiddleware('usage:read', { checkBalance: false });
+
+/**
+ * Réponse 404 pour un membre introuvable
+ */
+function memberNotFound(organizationId: string, userId: string): ApiError {
+  return {
+    error: {
+      message: `No such member in organization ${organizationId}: ${userId}`,
+      type: 'not_found_error'
+    }
+  };
+}
+
+/**
+ * Gère les erreurs communes des routes de gestion des organisations
+ */
+function handleOrganizationError(c: Context<{ Variables: HonoVariables }>, error: unknown) {
+  if (error instanceof z.ZodError) {
+    return c.json(handleValidationError(error), 400);
+  }
+
+  if (error instanceof Error && error.message.startsWith('Member already exists')) {
+    return c.json({
+      error: {
+        message: error.message,
+        type: 'invalid_request_error'
+      }
+    }, 409);
+  }
+
+  if (error instanceof Error && error.message.startsWith('Organization must keep at least one owner')) {
+    return c.json({
+      error: {
+        message: error.message,
+        type: 'invalid_request_error'
+      }
+    }, 400);
+  }
+
+  const { response, status } = handleBusinessError(error);
+  return c.json(response, status);
+}
+
+/**
+ * GET /v1/organizations
+ * Liste les organisations de l'utilisateur avec son rôle
+ */
+organizations.get('/', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const data = await listUserOrganizations(authData.user.id);
+
+    return c.json({
+      object: 'list',
+      data
+    });
+
+  } catch (error) {
+    console.error('List organizations error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * POST /v1/organizations
+ * Crée une organisation (et son wallet) dont l'utilisateur devient propriétaire
+ */
+organizations.post('/', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const body = await c.req.json();
+    const validatedRequest = createOrganizationSchema.parse(body);
+    const authData = c.get('auth');
+
+    const organization = await createOrganization(validatedRequest.name, authData.user.id);
+    return c.json(organization, 201);
+
+  } catch (error) {
+    console.error('Create organization error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * GET /v1/organizations/:id
+ * Détail d'une organisation : membres et solde (membres uniquement)
+ */
+organizations.get('/:id', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const organizationId = c.req.param('id');
+    const authData = c.get('auth');
+    await requireMembership(authData.user.id, organizationId);
+
+    const organization = await getOrganization(organizationId);
+    if (!organization) {
+      return c.json({
+        error: {
+          message: `No such organization: ${organizationId}`,
+          type: 'not_found_error'
+        }
+      }, 404);
+    }
+
+    return c.json(organization);
+
+  } catch (error) {
+    console.error('Get organization error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * GET /v1/organizations/:id/usage
+ * Dépense consolidée par membre et par clé API (?since=ISO, début du mois UTC par défaut)
+ */
+organizations.get('/:id/usage', usageAuthMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const organizationId = c.req.param('id');
+    const authData = c.get('auth');
+    await requireMembership(authData.user.id, organizationId, ORGANIZATION_MANAGER_ROLES);
+
+    const now = new Date();
+    const sinceParam = c.req.query('since');
+    const since = sinceParam ? new Date(sinceParam) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    if (isNaN(since.getTime())) {
+      return c.json({
+        error: {
+          message: 'since must be an ISO 8601 date',
+          type: 'invalid_request_error'
+        }
+      }, 400);
+    }
+
+    const usage = await getOrganizationUsage(organizationId, since.toISOString());
+    return c.json(usage);
+
+  } catch (error) {
+    console.error('Get organization usage error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * POST /v1/organizations/:id/members
+ * Ajoute un membre (owner/admin ; seul un owner peut nommer un owner)
+ */
+organizations.post('/:id/members', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const organizationId = c.req.param('id');
+    const body = await c.req.json();
+    const validatedRequest = addMemberSchema.parse(body);
+    const authData = c.get('auth');
+
+    await requireMembership(
+      authData.user.id,
+      organizationId,
+      validatedRequest.role === 'owner' ? ['owner'] : ORGANIZATION_MANAGER_ROLES
+    );
+
+    const member = await addMember(organizationId, validatedRequest.user_id, validatedRequest.role);
+    return c.json(member, 201);
+
+  } catch (error) {
+    console.error('Add organization member error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * PUT /v1/organizations/:id/members/:userId
+ * Change le rôle d'un membre (owner uniquement)
+ */
+organizations.put('/:id/members/:userId', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const organizationId = c.req.param('id');
+    const userId = c.req.param('userId');
+    const body = await c.req.json();
+    const validatedRequest = updateMemberSchema.parse(body);
+    const authData = c.get('auth');
+
+    await requireMembership(authData.user.id, organizationId, ['owner']);
+
+    const member = await updateMemberRole(organizationId, userId, validatedRequest.role);
+    if (!member) {
+      return c.json(memberNotFound(organizationId, userId), 404);
+    }
+
+    return c.json(member);
+
+  } catch (error) {
+    console.error('Update organization member error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+/**
+ * DELETE /v1/organizations/:id/members/:userId
+ * Retire un membre (owner/admin, un admin ne peut pas retirer un owner) ou quitte l'organisation
+ */
+organizations.delete('/:id/members/:userId', authOnlyMiddleware, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const organizationId = c.req.param('id');
+    const userId = c.req.param('userId');
+    const authData = c.get('auth');
+
+    if (userId === authData.user.id) {
+      await requireMembership(authData.user.id, organizationId);
+    } else {
+      const target = await getMembership(userId, organizationId);
+      await requireMembership(authData.user.id, organizationId, target?.role === 'owner' ? ['owner'] : ORGANIZATION_MANAGER_ROLES);
+    }
+
+    const removed = await removeMember(organizationId, userId);
+    if (!removed) {
+      return c.json(memberNotFound(organizationId, userId), 404);
+    }
+
+    return c.json({
+      id: userId,
+      object: 'organization.member',
+      deleted: true
+    });
+
+  } catch (error) {
+    console.error('Remove organization member error:', error);
+    return handleOrganizationError(c, error);
+  }
+});
+
+export default organizations;
@@ -0,0 +1,67 @@
+import { Hono } from 'hono';
+import { createScopedAuthMiddleware } from '../middleware/auth.js';
+import { explainRouting } from '../services/models.js';
+import { getApiKeyRestrictions } from '../services/api-key-limits.js';
+import { chatCompletionSchema, getPricePerformanceRatio, getProviders, handleValidationError, handleBusinessError } from './chat.js';
+import { z } from 'zod';
+import type { Context } from 'hono';
+import type { HonoVariables, StandardRequest } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const routing = new Hono<{ Variables: HonoVariables }>();
+
+// Requête de chat + score de complexité à simuler pour une famille
+const explainSchema = chatCompletionSchema.extend({
+  complexity_score: z.number().int().min(1).max(100).optional()
+});
+
+// Aucun appel LLM : authentification sans vérification de balance
+routing.use('*', createScopedAuthMiddleware('estimate:read', { checkBalance: false }));
+
+/**
+ * POST /v1/routing/explain
+ * Détaille le classement des providers (et la tranche choisie pour une famille) sans exécuter la requête
+ */
+routing.post('/explain', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const body = await c.req.json();
+    const validatedRequest = explainSchema.parse(body);
+    const authData = c.get('auth');
+
+    const standardRequest: StandardRequest = {
+      model: validatedRequest.model,
+      messages: validatedRequest.messages,
+      stream: !!validatedRequest.stream,
+      max_tokens: validatedRequest.max_tokens,
+      temperature: validatedRequest.temperature,
+      top_p: validatedRequest.top_p,
+      frequency_penalty: validatedRequest.frequency_penalty,
+      presence_penalty: validatedRequest.presence_penalty,
+      stop: validatedRequest.stop,
+      tools: validatedRequest.tools,
+      tool_choice: validatedRequest.tool_choice,
+      provider: getProviders(c, validatedRequest),
+      user: validatedRequest.user
+    };
+
+    const explanation = await explainRouting(standardRequest, authData.user.id, authData.userPreferences, {
+      ratio_sp: getPricePerformanceRatio(c),
+      ...getApiKeyRestrictions(authData)
+    }, validatedRequest.complexity_score);
+
+    return c.json(explanation);
+
+  } catch (error) {
+    console.error('Routing explain error:', error);
+
+    if (error instanceof z.ZodError) {
+      const validationError = handleValidationError(error);
+      return c.json(validationError, 400);
+    }
+
+    const { response, status } = handleBusinessError(error);
+    return c.json(response, status);
+  }
+});
+
+export default routing;
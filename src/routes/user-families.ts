@@ -0,0 +1,157 @@
+import { Hono } from 'hono';
+import { authOnlyMiddleware } from '../middleware/auth.js';
+import {
+  listFamilies,
+  getFamily,
+  createFamily,
+  updateFamily,
+  deleteUserFamily,
+  validateFamilyModels
+} from '../services/family-admin.js';
+import { USER_FAMILY_PREFIX, isUserFamilyId } from '../services/family-routing.js';
+import { getFamilySettings } from '../config/families.js';
+import { familySchema, updateFamilySchema, familyNotFound, invalidFamilyModels, handleFamilyError } from './families.js';
+import type { Context } from 'hono';
+import type { HonoVariables, FamilyConfig } from '../types/index.js';
+
+// Créer l'instance Hono avec les variables typées
+const userFamilies = new Hono<{ Variables: HonoVariables }>();
+
+// Les familles privées sont référencées par un identifiant préfixé (ex: user:myteam/router)
+const createUserFamilySchema = familySchema.refine(family => isUserFamilyId(family.family_id), {
+  message: `family_id must start with "${USER_FAMILY_PREFIX}"`,
+  path: ['family_id']
+});
+
+// Les family_id contiennent un "/" (ex: user:myteam/router), d'où le paramètre {.+}
+const FAMILY_ID = ':id{.+}';
+
+// Authentification sans vérification de balance
+userFamilies.use('*', authOnlyMiddleware);
+
+/**
+ * GET /v1/families
+ * Liste les familles privées de l'utilisateur
+ */
+userFamilies.get('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const authData = c.get('auth');
+    const data = await listFamilies(true, authData.user.id);
+
+    return c.json({
+      object: 'list',
+      data,
+      limit: getFamilySettings().max_families_per_user
+    });
+
+  } catch (error) {
+    console.error('List user families error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * POST /v1/families
+ * Crée une famille privée (dans la limite de settings.max_families_per_user)
+ */
+userFamilies.post('/', async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const body = await c.req.json();
+    const validatedRequest = createUserFamilySchema.parse(body);
+    const authData = c.get('auth');
+
+    const config: FamilyConfig = {
+      ...validatedRequest,
+      is_active: validatedRequest.is_active ?? true
+    };
+
+    const errors = await validateFamilyModels(config);
+    if (errors.length > 0) {
+      return c.json(invalidFamilyModels(errors), 400);
+    }
+
+    const family = await createFamily(config, authData.user.id, authData.user.id);
+    return c.json(family, 201);
+
+  } catch (error) {
+    console.error('Create user family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * GET /v1/families/:id
+ * Détail d'une famille privée
+ */
+userFamilies.get(`/${FAMILY_ID}`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const authData = c.get('auth');
+    const family = isUserFamilyId(familyId) ? await getFamily(familyId, authData.user.id) : null;
+
+    if (!family) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    return c.json(family);
+
+  } catch (error) {
+    console.error('Get user family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * PUT /v1/families/:id
+ * Met à jour une famille privée (crée une nouvelle version)
+ */
+userFamilies.put(`/${FAMILY_ID}`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const body = await c.req.json();
+    const validatedRequest = updateFamilySchema.parse(body);
+    const authData = c.get('auth');
+
+    const family = isUserFamilyId(familyId)
+      ? await updateFamily(familyId, validatedRequest, authData.user.id, validateFamilyModels, authData.user.id)
+      : null;
+
+    if (!family) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    return c.json(family);
+
+  } catch (error) {
+    console.error('Update user family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+/**
+ * DELETE /v1/families/:id
+ * Supprime une famille privée
+ */
+userFamilies.delete(`/${FAMILY_ID}`, async (c: Context<{ Variables: HonoVariables }>) => {
+  try {
+    const familyId = c.req.param('id');
+    const authData = c.get('auth');
+    const deleted = isUserFamilyId(familyId) && await deleteUserFamily(familyId, authData.user.id);
+
+    if (!deleted) {
+      return c.json(familyNotFound(familyId), 404);
+    }
+
+    return c.json({
+      id: familyId,
+      object: 'family',
+      deleted: true
+    });
+
+  } catch (error) {
+    console.error('Delete user family error:', error);
+    return handleFamilyError(c, error);
+  }
+});
+
+export default userFamilies;
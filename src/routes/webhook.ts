@@ -1,5 +1,12 @@
 import { Hono } from 'hono';
 import { processReadyRequests, getProcessorStats } from '../services/request-processor.js';
+import {
+  verifyWebhookRequest,
+  isDefaultWebhookSecretInUse,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_NONCE_HEADER
+} from '../services/webhook-signature.js';
 import dotenv from 'dotenv';
 import type { Context, Next } from 'hono';
 
@@ -48,53 +55,28 @@ interface WebhookErrorResponse {
 // Création d'un sémaphore simple pour éviter les exécutions concurrentes
 let isProcessing = false;
 
-// Clé webhook sécurisée définie dans les variables d'environnement
-const WEBHOOK_SECRET_KEY = process.env.WEBHOOK_SECRET_KEY || 'default-webhook-secret-key';
-
-// Validation de la clé secrète
-if (WEBHOOK_SECRET_KEY === 'default-webhook-secret-key') {
-  console.warn('⚠️ Using default webhook secret key. Please set WEBHOOK_SECRET_KEY in environment variables for production.');
-}
-
 const webhook = new Hono();
 
 /**
- * Valide une clé secrète de webhook
- * @param providedKey - Clé fournie dans l'en-tête
- * @returns true si la clé est valide
- */
-function validateWebhookSecret(providedKey: string | undefined): boolean {
-  if (!providedKey) {
-    return false;
-  }
-  
-  // Comparaison sécurisée pour éviter les timing attacks
-  if (providedKey.length !== WEBHOOK_SECRET_KEY.length) {
-    return false;
-  }
-  
-  let result = 0;
-  for (let i = 0; i < providedKey.length; i++) {
-    result |= providedKey.charCodeAt(i) ^ WEBHOOK_SECRET_KEY.charCodeAt(i);
-  }
-  
-  return result === 0;
-}
-
-/**
- * Middleware pour vérifier la clé secrète du webhook
+ * Middleware pour vérifier la signature HMAC du webhook (corps + horodatage + nonce)
+ * Le corps lu ici reste disponible pour la route (mis en cache par Hono)
  */
 async function webhookAuthMiddleware(c: Context, next: Next): Promise<Response | void> {
-  const secretHeader = c.req.header('X-Webhook-Secret');
+  const verification = verifyWebhookRequest({
+    signature: c.req.header(WEBHOOK_SIGNATURE_HEADER),
+    timestamp: c.req.header(WEBHOOK_TIMESTAMP_HEADER),
+    nonce: c.req.header(WEBHOOK_NONCE_HEADER),
+    body: await c.req.text()
+  });
   
-  if (!validateWebhookSecret(secretHeader)) {
+  if (!verification.valid) {
     const errorResponse: WebhookErrorResponse = {
       success: false,
-      message: 'Clé d\'authentification invalide ou manquante',
+      message: `Signature du webhook invalide : ${verification.reason}`,
       timestamp: new Date().toISOString()
     };
     
-    console.warn(`❌ Webhook authentication failed from ${c.req.header('x-forwarded-for') || 'unknown'}`);
+    console.warn(`❌ Webhook authentication failed (${verification.reason}) from ${c.req.header('x-forwarded-for') || 'unknown'}`);
     
     return c.json(errorResponse, 401);
   }
@@ -140,7 +122,7 @@ webhook.get('/status', async (c: Context) => {
     const response = {
       status: 'healthy',
       processing: isProcessing,
-      webhook_secret_configured: WEBHOOK_SECRET_KEY !== 'default-webhook-secret-key',
+      webhook_secret_configured: !isDefaultWebhookSecretInUse(),
       processor_stats: stats,
       timestamp: new Date().toISOString()
     };
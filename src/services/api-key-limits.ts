@@ -0,0 +1,317 @@
+import { supabase } from '../config/database.js';
+import { cacheUtils } from '../config/cache.js';
+import { ipMatchesCidrs, cidrWithinCidrs } from './client-ip.js';
+import type { AuthData, ApiKey, ApiKeyLimits, ApiKeyRow, ApiKeyScope, ApiKeyDenialReason } from '../types/index.js';
+
+// Permissions attribuables à une clé restreinte
+export const API_KEY_SCOPES: [ApiKeyScope, ...ApiKeyScope[]] = ['chat:write', 'estimate:read', 'models:read', 'usage:read', 'keys:admin'];
+
+/**
+ * Restriction d'une clé API non respectée (expiration, budget, modèle, provider, route, IP ou origine non autorisés)
+ * Distincte de insufficient_funds_error : le wallet peut être approvisionné alors que la clé est bloquée
+ */
+export class ApiKeyLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 402 | 403,
+    public readonly code: 'api_key_expired_error' | 'api_key_budget_exceeded_error' | 'api_key_forbidden_error' | 'api_key_scope_error' | 'api_key_source_forbidden_error'
+  ) {
+    super(message);
+    this.name = 'ApiKeyLimitError';
+  }
+}
+
+/**
+ * Extrait les restrictions d'une ligne api_keys
+ */
+export function toApiKeyLimits(row: Pick<ApiKeyRow, keyof ApiKeyLimits>): ApiKeyLimits {
+  return {
+    scopes: row.scopes ?? null,
+    allowed_ips: row.allowed_ips ?? null,
+    allowed_origins: row.allowed_origins ?? null,
+    daily_spend_limit: row.daily_spend_limit ?? null,
+    monthly_spend_limit: row.monthly_spend_limit ?? null,
+    allowed_models: row.allowed_models ?? null,
+    allowed_providers: row.allowed_providers ?? null,
+    expires_at: row.expires_at ?? null,
+    requests_per_minute: row.requests_per_minute ?? null,
+    tokens_per_minute: row.tokens_per_minute ?? null
+  };
+}
+
+/**
+ * Refuse une clé API expirée
+ * @throws ApiKeyLimitError (403 api_key_expired_error)
+ */
+export function assertApiKeyNotExpired(apiKey: ApiKey): void {
+  const expiresAt = apiKey.limits?.expires_at;
+
+  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    throw new ApiKeyLimitError(`API key "${apiKey.name}" expired on ${expiresAt}`, 403, 'api_key_expired_error');
+  }
+}
+
+/**
+ * Refuse une clé restreinte sans la permission demandée par la route
+ * Une route sans permission (scope undefined) est réservée aux clés à accès complet et aux tokens Supabase
+ * @throws ApiKeyLimitError (403 api_key_scope_error)
+ */
+export function assertApiKeyScope(authData: AuthData, scope?: ApiKeyScope): void {
+  const scopes = authData.apiKey?.limits?.scopes;
+
+  if (!scopes || (scope && scopes.includes(scope))) {
+    return;
+  }
+
+  throw new ApiKeyLimitError(
+    scope
+      ? `API key "${authData.apiKey!.name}" is missing the "${scope}" scope. Granted scopes: [${scopes.join(', ')}]`
+      : `API key "${authData.apiKey!.name}" is restricted to scopes [${scopes.join(', ')}] and cannot access this route`,
+    403,
+    'api_key_scope_error'
+  );
+}
+
+// Inclusion d'une restriction dans celle de la clé appelante (les deux valeurs étant renseignées)
+const LIMIT_INCLUSION_CHECKS: { [K in keyof ApiKeyLimits]-?: (value: NonNullable<ApiKeyLimits[K]>, callerValue: NonNullable<ApiKeyLimits[K]>) => boolean } = {
+  scopes: (value, callerValue) => value.every(scope => callerValue.includes(scope)),
+  allowed_ips: (value, callerValue) => value.every(cidr => cidrWithinCidrs(cidr, callerValue)),
+  allowed_origins: (value, callerValue) => value.every(origin => callerValue.some(allowed => originMatches(origin, allowed))),
+  daily_spend_limit: (value, callerValue) => value <= callerValue,
+  monthly_spend_limit: (value, callerValue) => value <= callerValue,
+  allowed_models: (value, callerValue) => value.every(model => callerValue.includes(model)),
+  allowed_providers: (value, callerValue) => value.every(provider => callerValue.includes(provider)),
+  expires_at: (value, callerValue) => new Date(value).getTime() <= new Date(callerValue).getTime(),
+  requests_per_minute: (value, callerValue) => value <= callerValue,
+  tokens_per_minute: (value, callerValue) => value <= callerValue
+};
+
+/**
+ * Refuse qu'une clé restreinte crée ou gère une clé moins restreinte qu'elle (null = aucune restriction)
+ * Chaque restriction de la clé appelante doit être reprise, égale ou plus stricte, par la clé ciblée
+ * @param callerLimits - Restrictions de la clé appelante (undefined pour une clé complète ou un token Supabase)
+ * @param limits - Restrictions de la clé créée ou gérée
+ * @throws ApiKeyLimitError (403 api_key_scope_error)
+ */
+export function assertApiKeyLimitsWithin(callerLimits: ApiKeyLimits | undefined, limits: Partial<ApiKeyLimits>): void {
+  if (!callerLimits) {
+    return;
+  }
+
+  const widerLimits = (Object.keys(LIMIT_INCLUSION_CHECKS) as Array<keyof ApiKeyLimits>).filter(field => {
+    const callerValue = callerLimits[field];
+    const value = limits[field];
+
+    if (callerValue === null) {
+      return false;
+    }
+    if (value === null || value === undefined) {
+      return true;
+    }
+
+    const isIncluded = LIMIT_INCLUSION_CHECKS[field] as (value: unknown, callerValue: unknown) => boolean;
+    return !isIncluded(value, callerValue);
+  });
+
+  if (widerLimits.length > 0) {
+    throw new ApiKeyLimitError(
+      `A restricted API key can only create or manage keys at least as restricted as itself (wider: ${widerLimits.join(', ')})`,
+      403,
+      'api_key_scope_error'
+    );
+  }
+}
+
+/**
+ * Provenance d'une requête, résolue par le middleware d'authentification
+ */
+export interface RequestSource {
+  ip: string | null;       // null si l'adresse de la connexion est inconnue
+  origin: string | null;   // En-tête Origin (requêtes navigateur)
+  path: string;
+}
+
+/**
+ * Compare une origine à une origine autorisée (exacte, ou sous-domaines avec https://*.example.com)
+ */
+function originMatches(origin: string, allowedOrigin: string): boolean {
+  const normalizedOrigin = origin.trim().toLowerCase().replace(/\/$/, '');
+  const pattern = allowedOrigin.trim().toLowerCase().replace(/\/$/, '');
+
+  if (pattern.includes('://*.')) {
+    const [scheme, domain] = pattern.split('*.');
+    return normalizedOrigin.startsWith(scheme) && normalizedOrigin.endsWith(`.${domain}`);
+  }
+
+  return normalizedOrigin === pattern;
+}
+
+/**
+ * Enregistre une requête refusée pour le propriétaire de la clé (asynchrone, sans bloquer la réponse)
+ */
+function recordApiKeyDenial(authData: AuthData, reason: ApiKeyDenialReason, source: RequestSource): void {
+  supabase
+    .from('api_key_denials')
+    .insert({
+      api_key_id: authData.apiKey!.id,
+      user_id: authData.user.id,
+      reason,
+      ip_address: source.ip,
+      origin: source.origin,
+      path: source.path
+    })
+    .then(({ error }) => {
+      if (error) {
+        console.error('Failed to record API key denial:', error);
+      }
+    });
+}
+
+/**
+ * Refuse une requête provenant d'une adresse IP ou d'une origine navigateur non autorisée
+ * Une requête sans en-tête Origin (appel serveur) n'est soumise qu'à allowed_ips
+ * @throws ApiKeyLimitError (403 api_key_source_forbidden_error)
+ */
+export function assertApiKeySource(authData: AuthData, source: RequestSource): void {
+  const apiKey = authData.apiKey;
+  const limits = apiKey?.limits;
+
+  if (!apiKey || !limits) {
+    return;
+  }
+
+  if (limits.allowed_ips && !(source.ip && ipMatchesCidrs(source.ip, limits.allowed_ips))) {
+    recordApiKeyDenial(authData, 'ip', source);
+    throw new ApiKeyLimitError(
+      `Requests from IP ${source.ip ?? 'unknown'} are not allowed for API key "${apiKey.name}"`,
+      403,
+      'api_key_source_forbidden_error'
+    );
+  }
+
+  if (limits.allowed_origins && source.origin && !limits.allowed_origins.some(allowed => originMatches(source.origin!, allowed))) {
+    recordApiKeyDenial(authData, 'origin', source);
+    throw new ApiKeyLimitError(
+      `Requests from origin ${source.origin} are not allowed for API key "${apiKey.name}"`,
+      403,
+      'api_key_source_forbidden_error'
+    );
+  }
+}
+
+/**
+ * Listes de modèles et de providers autorisés, à passer en options de filterProviders
+ */
+export function getApiKeyRestrictions(authData: AuthData): { allowedModels: string[] | null; allowedProviders: string[] | null } {
+  return {
+    allowedModels: authData.apiKey?.limits?.allowed_models ?? null,
+    allowedProviders: authData.apiKey?.limits?.allowed_providers ?? null
+  };
+}
+
+/**
+ * Refuse un modèle (ou une famille) absent de allowed_models
+ * @throws ApiKeyLimitError (403 api_key_forbidden_error)
+ */
+export function assertModelAllowed(allowedModels: string[] | null | undefined, modelId: string): void {
+  if (allowedModels && !allowedModels.includes(modelId)) {
+    throw new ApiKeyLimitError(
+      `Model "${modelId}" is not allowed for this API key. Allowed models: [${allowedModels.join(', ')}]`,
+      403,
+      'api_key_forbidden_error'
+    );
+  }
+}
+
+/**
+ * Début de la journée et du mois en cours (UTC)
+ */
+export function getPeriodStarts(now: Date = new Date()): { day: string; month: string } {
+  return {
+    day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString(),
+    month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+  };
+}
+
+/**
+ * Somme des débits des requêtes faites avec une clé API depuis une date
+ * Les requêtes pas encore traitées par le request-processor ne sont pas comptées
+ */
+export async function getApiKeySpend(userId: string, apiKey: ApiKey, since: string): Promise<number> {
+  const cached = cacheUtils.getApiKeySpend(apiKey.id, since);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let amount: number;
+
+  const { data, error } = await supabase.rpc('get_api_key_spend', {
+    p_user_id: userId,
+    p_api_key_id: apiKey.id,
+    p_since: since
+  });
+
+  if (error) {
+    console.error('Error fetching API key spend:', error);
+    // Fallback si la fonction SQL n'existe pas
+    amount = await getApiKeySpendFallback(userId, apiKey.id, since);
+  } else {
+    amount = parseFloat(data ?? 0) || 0;
+  }
+
+  cacheUtils.setApiKeySpend(apiKey.id, since, amount);
+  return amount;
+}
+
+/**
+ * Fallback : agrégation côté API des transactions jointes aux requêtes de la clé
+ */
+async function getApiKeySpendFallback(userId: string, apiKeyId: string, since: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('amount, requests!inner(api_key_id)')
+    .eq('user_id', userId)
+    .eq('type', 'debit')
+    .eq('requests.api_key_id', apiKeyId)
+    .gte('created_at', since);
+
+  if (error) {
+    throw new Error(`Failed to fetch API key spend: ${error.message}`);
+  }
+
+  return (data || []).reduce((total, transaction) => total + parseFloat(transaction.amount.toString()), 0);
+}
+
+/**
+ * Refuse une clé API ayant atteint son plafond journalier ou mensuel
+ * @throws ApiKeyLimitError (402 api_key_budget_exceeded_error)
+ */
+export async function assertApiKeyBudget(authData: AuthData): Promise<void> {
+  const apiKey = authData.apiKey;
+  const limits = apiKey?.limits;
+
+  if (!apiKey || !limits || (limits.daily_spend_limit === null && limits.monthly_spend_limit === null)) {
+    return;
+  }
+
+  const periods = getPeriodStarts();
+  const checks = [
+    { period: 'daily', limit: limits.daily_spend_limit, since: periods.day },
+    { period: 'monthly', limit: limits.monthly_spend_limit, since: periods.month }
+  ];
+
+  for (const { period, limit, since } of checks) {
+    if (limit === null) {
+      continue;
+    }
+
+    const spent = await getApiKeySpend(authData.user.id, apiKey, since);
+    if (spent >= limit) {
+      throw new ApiKeyLimitError(
+        `API key "${apiKey.name}" ${period} budget exceeded: $${spent.toFixed(6)} spent of $${limit} since ${since}`,
+        402,
+        'api_key_budget_exceeded_error'
+      );
+    }
+  }
+}
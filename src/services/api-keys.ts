@@ -0,0 +1,437 @@
+import crypto from 'crypto';
+import { supabase } from '../config/database.js';
+import { cacheUtils } from '../config/cache.js';
+import { getApiKeySpend, getPeriodStarts, assertApiKeyLimitsWithin, toApiKeyLimits } from './api-key-limits.js';
+import { requireMembership } from './organizations.js';
+import type { ApiKeyLimits, ApiKeyRow, ApiKeyDenialRow } from '../types/index.js';
+
+// Nombre de caractères conservés en clair pour identifier une clé (ex: "sk_live_ab12")
+export const API_KEY_PREFIX_LENGTH = 12;
+
+// Préfixe des clés générées (reconnu par looksLikeApiKey)
+const GENERATED_KEY_PREFIX = 'sk_mh_';
+
+// Période de recouvrement par défaut d'une rotation : l'ancienne clé reste valide 24h
+export const DEFAULT_ROTATION_OVERLAP_SECONDS = 86400;
+
+// Secret (sel) du hachage des clés : le changer invalide toutes les clés existantes
+const DEFAULT_HASH_SECRET = 'makehub-dev-api-key-secret';
+const hashSecret = process.env.API_KEY_HASH_SECRET || DEFAULT_HASH_SECRET;
+
+/**
+ * Refuse le secret de hachage par défaut en production (avertissement sinon)
+ * @throws Error en production si API_KEY_HASH_SECRET n'est pas configuré
+ */
+export function assertApiKeyHashSecretConfigured(): void {
+  if (hashSecret !== DEFAULT_HASH_SECRET) {
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Default API key hash secret is not allowed in production: set API_KEY_HASH_SECRET');
+  }
+
+  console.warn('⚠️ API_KEY_HASH_SECRET is not set, API keys are hashed with the default secret');
+}
+
+/**
+ * Hash d'une clé API (HMAC-SHA256 salé par API_KEY_HASH_SECRET)
+ * Déterministe pour permettre la recherche par index, sert aussi de clé de cache
+ */
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHmac('sha256', hashSecret).update(apiKey).digest('hex');
+}
+
+/**
+ * Préfixe affichable d'une clé (jamais assez long pour la reconstituer)
+ */
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, Math.min(API_KEY_PREFIX_LENGTH, Math.floor(apiKey.length / 2)));
+}
+
+/**
+ * Compare le hash stocké à celui de la clé présentée, en temps constant
+ */
+export function verifyApiKeyHash(storedHash: string, apiKeyHash: string): boolean {
+  const stored = Buffer.from(storedHash, 'hex');
+  const presented = Buffer.from(apiKeyHash, 'hex');
+
+  return stored.length === presented.length && crypto.timingSafeEqual(stored, presented);
+}
+
+/**
+ * Clé API telle que présentée à son propriétaire (jamais la clé en clair)
+ */
+export interface ApiKeySummary extends ApiKeyLimits {
+  id: string;
+  object: 'api_key';
+  name: string;
+  prefix: string | null;
+  organization_id: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  previous_key_expires_at: string | null;  // Fin de validité de l'ancienne clé après une rotation
+  spend: { daily: number; monthly: number };
+}
+
+/**
+ * Clé API créée ou renouvelée : la clé en clair n'est renvoyée qu'une fois
+ */
+export interface IssuedApiKey extends ApiKeySummary {
+  key: string;
+}
+
+/**
+ * Paramètres de création d'une clé
+ */
+export interface CreateApiKeyInput extends Partial<ApiKeyLimits> {
+  name: string;
+  organization_id?: string | null;
+}
+
+// Colonnes exposées au propriétaire de la clé
+const API_KEY_SUMMARY_SELECT = `
+  id,
+  user_id,
+  organization_id,
+  api_key_prefix,
+  api_key_name,
+  created_at,
+  last_used_at,
+  previous_api_key_expires_at,
+  daily_spend_limit,
+  monthly_spend_limit,
+  allowed_models,
+  allowed_providers,
+  expires_at,
+  requests_per_minute,
+  tokens_per_minute,
+  scopes,
+  allowed_ips,
+  allowed_origins
+`;
+
+type ApiKeySummaryRow = Pick<ApiKeyRow,
+  'id' | 'user_id' | 'organization_id' | 'api_key_prefix' | 'api_key_name' | 'created_at' | 'last_used_at' |
+  'previous_api_key_expires_at' | keyof ApiKeyLimits>;
+
+/**
+ * Génère une nouvelle clé API aléatoire
+ */
+export function generateApiKey(): string {
+  return `${GENERATED_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Invalide les entrées du cache d'authentification d'une clé (clé courante et clé remplacée)
+ */
+function invalidateCachedHashes(...hashes: Array<string | null | undefined>): void {
+  for (const hash of hashes) {
+    if (hash) {
+      cacheUtils.invalidateApiKey(hash);
+    }
+  }
+}
+
+/**
+ * Refuse un nom déjà utilisé par une autre clé active de l'utilisateur
+ * (les requêtes et l'usage d'organisation affichent la clé par son nom)
+ */
+async function assertNameAvailable(userId: string, name: string, excludeKeyId?: string): Promise<void> {
+  let query = supabase
+    .from('api_keys')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('api_key_name', name)
+    .eq('is_active', true);
+
+  if (excludeKeyId) {
+    query = query.neq('id', excludeKeyId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to check API key name: ${error.message}`);
+  }
+
+  if (data && data.length > 0) {
+    throw new Error(`API key name already in use: ${name}`);
+  }
+}
+
+/**
+ * Ajoute la dépense du jour et du mois à une clé
+ */
+async function toApiKeySummary(row: ApiKeySummaryRow): Promise<ApiKeySummary> {
+  const periods = getPeriodStarts();
+  const apiKey = { id: row.id, name: row.api_key_name, prefix: row.api_key_prefix || '' };
+  const [daily, monthly] = await Promise.all([
+    getApiKeySpend(row.user_id, apiKey, periods.day),
+    getApiKeySpend(row.user_id, apiKey, periods.month)
+  ]);
+
+  return {
+    id: row.id,
+    object: 'api_key',
+    name: row.api_key_name,
+    prefix: row.api_key_prefix,
+    organization_id: row.organization_id,
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    previous_key_expires_at: row.previous_api_key_expires_at,
+    daily_spend_limit: row.daily_spend_limit,
+    monthly_spend_limit: row.monthly_spend_limit,
+    allowed_models: row.allowed_models,
+    allowed_providers: row.allowed_providers,
+    expires_at: row.expires_at,
+    requests_per_minute: row.requests_per_minute,
+    tokens_per_minute: row.tokens_per_minute,
+    scopes: row.scopes,
+    allowed_ips: row.allowed_ips,
+    allowed_origins: row.allowed_origins,
+    spend: { daily, monthly }
+  };
+}
+
+/**
+ * Clés actives créées par l'utilisateur
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_SUMMARY_SELECT)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list API keys: ${error.message}`);
+  }
+
+  return Promise.all(((data || []) as unknown as ApiKeySummaryRow[]).map(toApiKeySummary));
+}
+
+/**
+ * Crée une clé (personnelle, ou d'organisation si l'utilisateur en est membre)
+ * @param callerLimits - Restrictions de la clé appelante : la nouvelle clé doit être au moins aussi restreinte
+ */
+export async function createApiKey(userId: string, input: CreateApiKeyInput, callerLimits?: ApiKeyLimits): Promise<IssuedApiKey> {
+  assertApiKeyLimitsWithin(callerLimits, input);
+
+  if (input.organization_id) {
+    await requireMembership(userId, input.organization_id);
+  }
+
+  await assertNameAvailable(userId, input.name);
+
+  const key = generateApiKey();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      user_id: userId,
+      organization_id: input.organization_id ?? null,
+      api_key: null,
+      api_key_hash: hashApiKey(key),
+      api_key_prefix: getApiKeyPrefix(key),
+      api_key_name: input.name,
+      is_active: true,
+      daily_spend_limit: input.daily_spend_limit ?? null,
+      monthly_spend_limit: input.monthly_spend_limit ?? null,
+      allowed_models: input.allowed_models ?? null,
+      allowed_providers: input.allowed_providers ?? null,
+      expires_at: input.expires_at ?? null,
+      requests_per_minute: input.requests_per_minute ?? null,
+      tokens_per_minute: input.tokens_per_minute ?? null,
+      scopes: input.scopes ?? null,
+      allowed_ips: input.allowed_ips ?? null,
+      allowed_origins: input.allowed_origins ?? null
+    })
+    .select(API_KEY_SUMMARY_SELECT)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create API key: ${error?.message || 'Unknown error'}`);
+  }
+
+  return { ...(await toApiKeySummary(data as unknown as ApiKeySummaryRow)), key };
+}
+
+/**
+ * Clé active de l'utilisateur avec ses hashes
+ * @param callerLimits - Restrictions de la clé appelante : refuse une clé moins restreinte qu'elle
+ */
+async function getOwnedApiKey(
+  userId: string,
+  keyId: string,
+  callerLimits?: ApiKeyLimits
+): Promise<Pick<ApiKeyRow, 'id' | 'api_key' | 'api_key_hash' | 'api_key_name' | 'previous_api_key_hash'> | null> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(`
+      id,
+      api_key,
+      api_key_hash,
+      api_key_name,
+      previous_api_key_hash,
+      daily_spend_limit,
+      monthly_spend_limit,
+      allowed_models,
+      allowed_providers,
+      expires_at,
+      requests_per_minute,
+      tokens_per_minute,
+      scopes,
+      allowed_ips,
+      allowed_origins
+    `)
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch API key: ${error.message}`);
+  }
+
+  if (data) {
+    assertApiKeyLimitsWithin(callerLimits, toApiKeyLimits(data as unknown as ApiKeyRow));
+  }
+
+  return data as unknown as Pick<ApiKeyRow, 'id' | 'api_key' | 'api_key_hash' | 'api_key_name' | 'previous_api_key_hash'> | null;
+}
+
+/**
+ * Renomme une clé ; sa dépense et ses plafonds sont conservés (agrégés sur requests.api_key_id)
+ * @returns La clé renommée, ou null si elle n'existe pas
+ */
+export async function renameApiKey(
+  userId: string,
+  keyId: string,
+  name: string,
+  callerLimits?: ApiKeyLimits
+): Promise<ApiKeySummary | null> {
+  const current = await getOwnedApiKey(userId, keyId, callerLimits);
+  if (!current) {
+    return null;
+  }
+
+  if (current.api_key_name !== name) {
+    await assertNameAvailable(userId, name, keyId);
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ api_key_name: name })
+    .eq('id', keyId)
+    .select(API_KEY_SUMMARY_SELECT)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to rename API key: ${error?.message || 'Unknown error'}`);
+  }
+
+  invalidateCachedHashes(current.api_key_hash, current.previous_api_key_hash);
+  return toApiKeySummary(data as unknown as ApiKeySummaryRow);
+}
+
+/**
+ * Remplace la clé en clair d'une clé API ; l'ancienne reste valide pendant overlapSeconds (0 = révoquée immédiatement)
+ * Une rotation pendant un recouvrement en cours met fin à la validité de la clé précédente
+ * @returns La nouvelle clé, ou null si elle n'existe pas
+ */
+export async function rotateApiKey(
+  userId: string,
+  keyId: string,
+  overlapSeconds: number = DEFAULT_ROTATION_OVERLAP_SECONDS,
+  callerLimits?: ApiKeyLimits
+): Promise<IssuedApiKey | null> {
+  const current = await getOwnedApiKey(userId, keyId, callerLimits);
+  if (!current) {
+    return null;
+  }
+
+  // Clé historique pas encore migrée : son hash est calculé depuis la colonne en clair
+  const currentHash = current.api_key_hash || (current.api_key ? hashApiKey(current.api_key) : null);
+  const key = generateApiKey();
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({
+      api_key: null,
+      api_key_hash: hashApiKey(key),
+      api_key_prefix: getApiKeyPrefix(key),
+      previous_api_key_hash: overlapSeconds > 0 ? currentHash : null,
+      previous_api_key_expires_at: overlapSeconds > 0 ? new Date(Date.now() + overlapSeconds * 1000).toISOString() : null
+    })
+    .eq('id', keyId)
+    .select(API_KEY_SUMMARY_SELECT)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to rotate API key: ${error?.message || 'Unknown error'}`);
+  }
+
+  // L'entrée en cache de l'ancienne clé ne connaît pas la fin du recouvrement
+  invalidateCachedHashes(currentHash, current.previous_api_key_hash);
+  console.log(`🔄 API key ${keyId} rotated (overlap: ${overlapSeconds}s)`);
+
+  return { ...(await toApiKeySummary(data as unknown as ApiKeySummaryRow)), key };
+}
+
+/**
+ * Révoque une clé (et la clé remplacée par une rotation en cours), effet immédiat sur le cache
+ * @returns false si la clé n'existe pas
+ */
+export async function revokeApiKey(userId: string, keyId: string, callerLimits?: ApiKeyLimits): Promise<boolean> {
+  const current = await getOwnedApiKey(userId, keyId, callerLimits);
+  if (!current) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('api_keys')
+    .update({ is_active: false, previous_api_key_hash: null, previous_api_key_expires_at: null })
+    .eq('id', keyId);
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+
+  invalidateCachedHashes(
+    current.api_key_hash,
+    current.api_key ? hashApiKey(current.api_key) : null,
+    current.previous_api_key_hash
+  );
+  console.log(`🔒 API key ${keyId} revoked`);
+
+  return true;
+}
+
+/**
+ * Dernières requêtes refusées pour une clé (IP ou origine non autorisée)
+ * @returns null si la clé n'existe pas
+ */
+export async function listApiKeyDenials(
+  userId: string,
+  keyId: string,
+  limit: number,
+  callerLimits?: ApiKeyLimits
+): Promise<ApiKeyDenialRow[] | null> {
+  if (!(await getOwnedApiKey(userId, keyId, callerLimits))) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('api_key_denials')
+    .select('*')
+    .eq('api_key_id', keyId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list API key denials: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,889 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../config/database.js';
+import { requestHandler } from './request-handler.js';
+import { createFile } from './files.js';
+import { checkPaymentCapability } from '../middleware/auth.js';
+import { assertApiKeyBudget, toApiKeyLimits } from './api-key-limits.js';
+import { getMembership } from './organizations.js';
+import type {
+  AuthData,
+  StandardRequest,
+  ChatCompletion,
+  ApiKeyRow,
+  BatchRow,
+  BatchRequestRow,
+  BatchRequestStatus,
+  BatchStatus,
+  BatchObject,
+  BatchOutputLine
+} from '../types/index.js';
+
+/**
+ * Requête d'un batch, déjà validée et convertie au format standard
+ */
+export interface BatchItem {
+  custom_id: string;
+  request: StandardRequest;
+}
+
+/**
+ * Paramètres de création d'un batch
+ */
+export interface CreateBatchParams {
+  input_file_id: string;
+  endpoint: string;
+  completion_window: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Interface pour les statistiques du service batch
+ */
+interface BatchServiceStats {
+  runningBatches: number;
+  concurrency: number;
+  workerId: string;
+}
+
+/**
+ * État d'un batch exécuté par cette instance, mis à jour par le signe de vie
+ */
+interface BatchRun {
+  cancelled: boolean;  // Annulation demandée (depuis n'importe quelle instance)
+  leaseLost: boolean;  // Batch repris par une autre instance : plus aucune écriture
+  succeeded: number;
+  failed: number;
+}
+
+// Nombre de mises à jour de progression : toutes les N requêtes terminées
+const PROGRESS_UPDATE_INTERVAL = 100;
+
+// Taille des lots d'insertion et de lecture de la table batch_requests
+const REQUEST_CHUNK_SIZE = 1000;
+
+// Statuts d'un batch qui n'est pas terminé (repris si son instance ne donne plus signe de vie)
+const ACTIVE_STATUSES: BatchStatus[] = ['validating', 'in_progress', 'cancelling', 'finalizing'];
+
+function readNumberEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return !isNaN(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Service d'émulation de l'API Batch OpenAI.
+ * Les requêtes d'un batch et leurs résultats sont persistés dans batch_requests : l'instance qui exécute
+ * un batch envoie un signe de vie (heartbeat_at), et un batch sans signe de vie est repris par une autre
+ * instance (ou après un redémarrage) là où il s'était arrêté. Chaque requête passe par
+ * RequestHandler.handleChatCompletion, avec une concurrence bornée.
+ */
+export class BatchService {
+  private concurrency: number;
+  private heartbeatIntervalMs: number;
+  private staleAfterMs: number;
+  private readonly workerId = `worker_${uuidv4().replace(/-/g, '')}`;
+  private runs = new Map<string, BatchRun>();
+  private recoveryTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.concurrency = readNumberEnv('BATCH_CONCURRENCY', 4);
+    this.heartbeatIntervalMs = readNumberEnv('BATCH_HEARTBEAT_INTERVAL_MS', 15000);
+    this.staleAfterMs = readNumberEnv('BATCH_STALE_AFTER_MS', 60000);
+  }
+
+  /**
+   * Convertit une ligne de la table batches en objet Batch (format OpenAI)
+   */
+  private toBatchObject(row: BatchRow): BatchObject {
+    const toUnix = (value: string | null): number | null =>
+      value ? Math.floor(new Date(value).getTime() / 1000) : null;
+
+    return {
+      id: row.id,
+      object: 'batch',
+      endpoint: row.endpoint,
+      errors: row.errors && row.errors.length > 0 ? { object: 'list', data: row.errors } : null,
+      input_file_id: row.input_file_id,
+      completion_window: row.completion_window,
+      status: row.status,
+      output_file_id: row.output_file_id,
+      error_file_id: row.error_file_id,
+      created_at: toUnix(row.created_at)!,
+      in_progress_at: toUnix(row.in_progress_at),
+      expires_at: toUnix(row.expires_at)!,
+      completed_at: toUnix(row.completed_at),
+      failed_at: toUnix(row.failed_at),
+      expired_at: toUnix(row.expired_at),
+      cancelling_at: toUnix(row.cancelling_at),
+      cancelled_at: toUnix(row.cancelled_at),
+      request_counts: {
+        total: row.total_requests,
+        completed: row.completed_requests,
+        failed: row.failed_requests
+      },
+      metadata: row.metadata
+    };
+  }
+
+  /**
+   * Convertit une fenêtre de complétion ("24h") en millisecondes
+   */
+  private completionWindowMs(window: string): number {
+    const match = /^(\d+)h$/.exec(window);
+    return (match ? parseInt(match[1], 10) : 24) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Crée un batch, persiste ses requêtes et démarre son exécution en arrière-plan
+   * @param authData - Données d'authentification du créateur
+   * @param params - Paramètres du batch
+   * @param items - Requêtes validées issues du fichier d'entrée
+   * @returns Objet Batch créé
+   */
+  async createBatch(authData: AuthData, params: CreateBatchParams, items: BatchItem[]): Promise<BatchObject> {
+    const now = new Date();
+    const row: BatchRow = {
+      id: `batch_${uuidv4().replace(/-/g, '')}`,
+      user_id: authData.user.id,
+      api_key_name: authData.apiKey?.name || null,
+      endpoint: params.endpoint,
+      input_file_id: params.input_file_id,
+      output_file_id: null,
+      error_file_id: null,
+      completion_window: params.completion_window,
+      status: 'validating',
+      total_requests: items.length,
+      completed_requests: 0,
+      failed_requests: 0,
+      metadata: params.metadata || null,
+      errors: null,
+      created_at: now.toISOString(),
+      in_progress_at: null,
+      expires_at: new Date(now.getTime() + this.completionWindowMs(params.completion_window)).toISOString(),
+      completed_at: null,
+      failed_at: null,
+      expired_at: null,
+      cancelling_at: null,
+      cancelled_at: null,
+      auth_context: authData,
+      worker_id: this.workerId,
+      heartbeat_at: now.toISOString()
+    };
+
+    const { error } = await supabase.from('batches').insert(row);
+
+    if (error) {
+      throw new Error(`Failed to create batch: ${error.message}`);
+    }
+
+    try {
+      await this.insertRequests(row.id, items);
+    } catch (insertError) {
+      await this.updateBatch(row.id, {
+        status: 'failed',
+        failed_at: new Date().toISOString(),
+        errors: [{ code: 'batch_failed', message: insertError instanceof Error ? insertError.message : 'Unknown error' }]
+      });
+      throw insertError;
+    }
+
+    console.log(`📦 Batch ${row.id} created with ${items.length} requests`);
+
+    // Exécution asynchrone, la réponse HTTP n'attend pas la fin du batch
+    setImmediate(() => {
+      this.runBatch(row, authData).catch(runError => {
+        console.error(`❌ Batch ${row.id} crashed:`, runError);
+      });
+    });
+
+    return this.toBatchObject(row);
+  }
+
+  /**
+   * Récupère un batch appartenant à l'utilisateur
+   */
+  async getBatch(userId: string, batchId: string): Promise<BatchObject | null> {
+    const row = await this.getBatchRow(userId, batchId);
+    return row ? this.toBatchObject(row) : null;
+  }
+
+  /**
+   * Liste les batches d'un utilisateur (du plus récent au plus ancien)
+   */
+  async listBatches(userId: string, limit: number = 20): Promise<BatchObject[]> {
+    const { data, error } = await supabase
+      .from('batches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list batches: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.toBatchObject(row as BatchRow));
+  }
+
+  /**
+   * Demande l'annulation d'un batch
+   * Le statut passe à cancelling en base : l'instance qui exécute le batch le voit à son prochain signe de vie,
+   * laisse se terminer les requêtes en cours et écrit les résultats partiels avant de passer à cancelled.
+   */
+  async cancelBatch(userId: string, batchId: string): Promise<BatchObject | null> {
+    const row = await this.getBatchRow(userId, batchId);
+    if (!row) {
+      return null;
+    }
+
+    if (!['validating', 'in_progress'].includes(row.status)) {
+      throw new Error(`Invalid batch status: cannot cancel a batch with status ${row.status}`);
+    }
+
+    const { data, error } = await supabase
+      .from('batches')
+      .update({ status: 'cancelling', cancelling_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .in('status', ['validating', 'in_progress'])
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel batch: ${error.message}`);
+    }
+
+    if (!data) {
+      const current = await this.getBatchRow(userId, batchId);
+      throw new Error(`Invalid batch status: cannot cancel a batch with status ${current?.status ?? 'unknown'}`);
+    }
+
+    const cancelled = data as BatchRow;
+    const run = this.runs.get(batchId);
+    if (run) {
+      run.cancelled = true;
+    } else if (this.isStale(cancelled)) {
+      // Aucune instance n'exécute le batch : il est repris ici pour écrire ses résultats partiels
+      setImmediate(() => {
+        this.recoverStaleBatches().catch(recoveryError => {
+          console.error('❌ Batch recovery failed:', recoveryError);
+        });
+      });
+    }
+
+    return this.toBatchObject(cancelled);
+  }
+
+  /**
+   * Reprend les batches dont l'instance ne donne plus signe de vie, au démarrage puis périodiquement
+   */
+  startRecovery(): void {
+    if (this.recoveryTimer) {
+      return;
+    }
+
+    const recover = () => {
+      this.recoverStaleBatches().catch(error => {
+        console.error('❌ Batch recovery failed:', error);
+      });
+    };
+
+    recover();
+    this.recoveryTimer = setInterval(recover, this.staleAfterMs);
+    this.recoveryTimer.unref?.();
+  }
+
+  /**
+   * Reprend les batches non terminés sans signe de vie depuis staleAfterMs
+   * La reprise est réservée par une mise à jour conditionnelle : une seule instance reprend un batch donné
+   */
+  async recoverStaleBatches(): Promise<number> {
+    const threshold = new Date(Date.now() - this.staleAfterMs).toISOString();
+
+    const { data, error } = await supabase
+      .from('batches')
+      .select('*')
+      .in('status', ACTIVE_STATUSES)
+      .or(`heartbeat_at.is.null,heartbeat_at.lt.${threshold}`)
+      .limit(20);
+
+    if (error) {
+      throw new Error(`Failed to fetch stale batches: ${error.message}`);
+    }
+
+    let recovered = 0;
+    for (const stale of (data || []) as BatchRow[]) {
+      if (this.runs.has(stale.id)) {
+        continue;
+      }
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('batches')
+        .update({ worker_id: this.workerId, heartbeat_at: new Date().toISOString() })
+        .eq('id', stale.id)
+        .in('status', ACTIVE_STATUSES)
+        .or(`heartbeat_at.is.null,heartbeat_at.lt.${threshold}`)
+        .select('*')
+        .maybeSingle();
+
+      if (claimError) {
+        console.error(`Failed to claim batch ${stale.id}:`, claimError);
+        continue;
+      }
+
+      if (!claimed) {
+        continue; // Repris par une autre instance entre-temps
+      }
+
+      const row = claimed as BatchRow;
+      console.log(`♻️ Resuming batch ${row.id} (status: ${row.status}, previous worker: ${stale.worker_id ?? 'unknown'})`);
+      recovered++;
+
+      try {
+        const authData = await this.restoreAuthData(row);
+        setImmediate(() => {
+          this.runBatch(row, authData).catch(runError => {
+            console.error(`❌ Batch ${row.id} crashed:`, runError);
+          });
+        });
+      } catch (restoreError) {
+        console.error(`❌ Batch ${row.id} cannot be resumed:`, restoreError);
+        await this.updateBatch(row.id, {
+          status: 'failed',
+          failed_at: new Date().toISOString(),
+          errors: [{ code: 'batch_failed', message: restoreError instanceof Error ? restoreError.message : 'Unknown error' }]
+        });
+      }
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Statistiques du service
+   */
+  getStats(): BatchServiceStats {
+    return {
+      runningBatches: this.runs.size,
+      concurrency: this.concurrency,
+      workerId: this.workerId
+    };
+  }
+
+  private async getBatchRow(userId: string, batchId: string): Promise<BatchRow | null> {
+    const { data, error } = await supabase
+      .from('batches')
+      .select('*')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch batch: ${error.message}`);
+    }
+
+    return (data as BatchRow | null) || null;
+  }
+
+  private async updateBatch(batchId: string, update: Partial<BatchRow>): Promise<void> {
+    const { error } = await supabase
+      .from('batches')
+      .update(update)
+      .eq('id', batchId);
+
+    if (error) {
+      console.error(`Failed to update batch ${batchId}:`, error);
+    }
+  }
+
+  /**
+   * Batch dont l'instance n'a pas donné signe de vie depuis staleAfterMs
+   */
+  private isStale(row: BatchRow): boolean {
+    return !row.heartbeat_at || Date.now() - new Date(row.heartbeat_at).getTime() >= this.staleAfterMs;
+  }
+
+  /**
+   * Persiste les requêtes d'un batch, par lots (line_index = rang dans le fichier d'entrée)
+   */
+  private async insertRequests(batchId: string, items: BatchItem[]): Promise<void> {
+    for (let start = 0; start < items.length; start += REQUEST_CHUNK_SIZE) {
+      const rows: Omit<BatchRequestRow, 'updated_at'>[] = items.slice(start, start + REQUEST_CHUNK_SIZE).map((item, offset) => ({
+        batch_id: batchId,
+        line_index: start + offset,
+        custom_id: item.custom_id,
+        request_json: item.request,
+        status: 'pending',
+        output_line: null
+      }));
+
+      const { error } = await supabase.from('batch_requests').insert(rows);
+
+      if (error) {
+        throw new Error(`Failed to store batch requests: ${error.message}`);
+      }
+
+      // Un gros fichier peut prendre du temps à insérer : le batch ne doit pas être repris entre-temps
+      await this.updateBatch(batchId, { heartbeat_at: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Contexte d'authentification d'un batch repris : le créateur doit toujours être membre de l'organisation
+   * facturée, la clé API doit toujours être active, ses restrictions sont relues en base
+   * @throws Error si le contexte est absent, si le créateur a quitté l'organisation ou si la clé a été révoquée
+   */
+  private async restoreAuthData(row: BatchRow): Promise<AuthData> {
+    let authData = row.auth_context;
+    if (!authData) {
+      throw new Error('Batch cannot be resumed: missing authentication context');
+    }
+
+    // Même vérification que le middleware d'authentification sur le chemin en cache
+    if (authData.organization) {
+      const organization = await getMembership(authData.user.id, authData.organization.id);
+      if (!organization) {
+        throw new Error('Batch cannot be resumed: batch creator is no longer a member of the organization');
+      }
+      authData = { ...authData, organization };
+    }
+
+    if (!authData.apiKey) {
+      return authData;
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('is_active, daily_spend_limit, monthly_spend_limit, allowed_models, allowed_providers, expires_at, requests_per_minute, tokens_per_minute, scopes, allowed_ips, allowed_origins')
+      .eq('id', authData.apiKey.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch batch API key: ${error.message}`);
+    }
+
+    if (!data || !data.is_active) {
+      throw new Error(`Batch cannot be resumed: API key "${authData.apiKey.name}" has been revoked`);
+    }
+
+    return {
+      ...authData,
+      apiKey: { ...authData.apiKey, limits: toApiKeyLimits(data as unknown as ApiKeyRow) }
+    };
+  }
+
+  /**
+   * Signe de vie de l'instance ; relit le statut pour voir une annulation demandée depuis une autre instance
+   */
+  private async heartbeat(batchId: string, run: BatchRun): Promise<void> {
+    const { data, error } = await supabase
+      .from('batches')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('worker_id', this.workerId)
+      .select('status')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to send heartbeat for batch ${batchId}:`, error);
+      return;
+    }
+
+    if (!data) {
+      console.warn(`⚠️ Batch ${batchId} was taken over by another worker, stopping`);
+      run.leaseLost = true;
+    } else if (data.status === 'cancelling') {
+      run.cancelled = true;
+    }
+  }
+
+  private async countRequests(batchId: string, status: BatchRequestStatus): Promise<number> {
+    const { count, error } = await supabase
+      .from('batch_requests')
+      .select('line_index', { count: 'exact', head: true })
+      .eq('batch_id', batchId)
+      .eq('status', status);
+
+    if (error) {
+      throw new Error(`Failed to count batch requests: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  private async fetchRequests(batchId: string, status: BatchRequestStatus, afterIndex: number): Promise<BatchRequestRow[]> {
+    const { data, error } = await supabase
+      .from('batch_requests')
+      .select('*')
+      .eq('batch_id', batchId)
+      .eq('status', status)
+      .gt('line_index', afterIndex)
+      .order('line_index', { ascending: true })
+      .limit(REQUEST_CHUNK_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to fetch batch requests: ${error.message}`);
+    }
+
+    return (data || []) as BatchRequestRow[];
+  }
+
+  private async updateRequest(
+    batchId: string,
+    lineIndex: number,
+    status: BatchRequestStatus,
+    outputLine: BatchOutputLine | null = null
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('batch_requests')
+      .update({ status, output_line: outputLine, updated_at: new Date().toISOString() })
+      .eq('batch_id', batchId)
+      .eq('line_index', lineIndex);
+
+    if (error) {
+      throw new Error(`Failed to update batch request ${lineIndex}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Requêtes en cours lors de l'arrêt de l'instance précédente : elles ont pu être facturées,
+   * elles sont donc marquées en échec plutôt que rejouées
+   */
+  private async failInterruptedRequests(batchId: string): Promise<void> {
+    let afterIndex = -1;
+    let interrupted = await this.fetchRequests(batchId, 'running', afterIndex);
+
+    while (interrupted.length > 0) {
+      for (const item of interrupted) {
+        const line = this.errorLine(
+          `batch_req_${uuidv4().replace(/-/g, '')}`,
+          item.custom_id,
+          uuidv4(),
+          500,
+          'batch_request_interrupted_error',
+          'Request interrupted by a worker restart; it was not retried and may have been billed'
+        );
+        await this.updateRequest(batchId, item.line_index, 'failed', line);
+      }
+
+      afterIndex = interrupted[interrupted.length - 1].line_index;
+      interrupted = await this.fetchRequests(batchId, 'running', afterIndex);
+    }
+  }
+
+  /**
+   * Requêtes non exécutées avant la fin de la fenêtre de complétion : marquées en échec (batch_expired)
+   * pour figurer dans le fichier d'erreurs, comme chez OpenAI
+   */
+  private async failExpiredRequests(batchId: string, run: BatchRun): Promise<void> {
+    let afterIndex = -1;
+    let pending = await this.fetchRequests(batchId, 'pending', afterIndex);
+
+    while (pending.length > 0) {
+      for (const item of pending) {
+        const line: BatchOutputLine = {
+          id: `batch_req_${uuidv4().replace(/-/g, '')}`,
+          custom_id: item.custom_id,
+          response: null,
+          error: {
+            code: 'batch_expired',
+            message: 'This request could not be executed before the completion window expired.'
+          }
+        };
+        await this.updateRequest(batchId, item.line_index, 'failed', line);
+        run.failed++;
+      }
+
+      afterIndex = pending[pending.length - 1].line_index;
+      pending = await this.fetchRequests(batchId, 'pending', afterIndex);
+    }
+  }
+
+  /**
+   * Exécute les requêtes en attente d'un batch avec une concurrence bornée, puis le finalise
+   * Les requêtes et leurs résultats sont persistés au fil de l'eau : le batch peut être repris à tout moment
+   */
+  private async runBatch(row: BatchRow, authData: AuthData): Promise<void> {
+    const batchId = row.id;
+    const expiresAt = new Date(row.expires_at).getTime();
+    const run: BatchRun = { cancelled: row.status === 'cancelling', leaseLost: false, succeeded: 0, failed: 0 };
+    let expired = false;
+
+    this.runs.set(batchId, run);
+    const heartbeatTimer = setInterval(() => {
+      this.heartbeat(batchId, run).catch(error => console.error(`Failed to send heartbeat for batch ${batchId}:`, error));
+    }, this.heartbeatIntervalMs);
+
+    try {
+      if (row.status === 'validating') {
+        await supabase
+          .from('batches')
+          .update({ status: 'in_progress', in_progress_at: new Date().toISOString() })
+          .eq('id', batchId)
+          .eq('worker_id', this.workerId)
+          .eq('status', 'validating');
+      }
+
+      await this.failInterruptedRequests(batchId);
+      run.succeeded = await this.countRequests(batchId, 'succeeded');
+      run.failed = await this.countRequests(batchId, 'failed');
+
+      let afterIndex = -1;
+      while (!run.cancelled && !run.leaseLost && !expired && row.status !== 'finalizing') {
+        const items = await this.fetchRequests(batchId, 'pending', afterIndex);
+        if (items.length === 0) {
+          break;
+        }
+
+        expired = await this.executeRequests(batchId, items, authData, run, expiresAt);
+        afterIndex = items[items.length - 1].line_index;
+      }
+
+      if (run.leaseLost) {
+        return;
+      }
+
+      await this.finalizeBatch(row, run, expired);
+
+    } catch (error) {
+      console.error(`❌ Batch ${batchId} failed:`, error);
+      if (!run.leaseLost) {
+        await this.updateBatch(batchId, {
+          status: 'failed',
+          failed_at: new Date().toISOString(),
+          completed_requests: run.succeeded,
+          failed_requests: run.failed,
+          errors: [{
+            code: 'batch_failed',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          }]
+        });
+      }
+    } finally {
+      clearInterval(heartbeatTimer);
+      this.runs.delete(batchId);
+    }
+  }
+
+  /**
+   * Exécute un lot de requêtes ; chaque résultat est persisté dès qu'il est connu
+   * @returns true si la fenêtre de complétion a expiré
+   */
+  private async executeRequests(
+    batchId: string,
+    items: BatchRequestRow[],
+    authData: AuthData,
+    run: BatchRun,
+    expiresAt: number
+  ): Promise<boolean> {
+    let nextIndex = 0;
+    let expired = false;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        if (run.cancelled || run.leaseLost) return;
+        if (Date.now() > expiresAt) {
+          expired = true;
+          return;
+        }
+
+        const item = items[nextIndex++];
+        await this.updateRequest(batchId, item.line_index, 'running');
+
+        const line = await this.executeItem(batchId, item, authData);
+        const succeeded = line.response?.status_code === 200;
+        await this.updateRequest(batchId, item.line_index, succeeded ? 'succeeded' : 'failed', line);
+
+        if (succeeded) {
+          run.succeeded++;
+        } else {
+          run.failed++;
+        }
+
+        if ((run.succeeded + run.failed) % PROGRESS_UPDATE_INTERVAL === 0) {
+          await this.updateBatch(batchId, {
+            completed_requests: run.succeeded,
+            failed_requests: run.failed
+          });
+        }
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, items.length) }, () => worker());
+    await Promise.all(workers);
+
+    return expired;
+  }
+
+  /**
+   * Écrit les fichiers de résultats et le statut final
+   * Le statut est relu en base : une annulation demandée depuis une autre instance n'est pas écrasée
+   */
+  private async finalizeBatch(row: BatchRow, run: BatchRun, expired: boolean): Promise<void> {
+    const batchId = row.id;
+
+    const { data: finalizing, error } = await supabase
+      .from('batches')
+      .update({ status: 'finalizing' })
+      .eq('id', batchId)
+      .eq('worker_id', this.workerId)
+      .in('status', ['in_progress', 'finalizing'])
+      .select('status')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to finalize batch: ${error.message}`);
+    }
+
+    let finalStatus: BatchStatus;
+    if (finalizing) {
+      finalStatus = expired ? 'expired' : 'completed';
+    } else {
+      const { data: current, error: currentError } = await supabase
+        .from('batches')
+        .select('status, worker_id')
+        .eq('id', batchId)
+        .maybeSingle();
+
+      if (currentError) {
+        throw new Error(`Failed to fetch batch: ${currentError.message}`);
+      }
+
+      if (current?.status !== 'cancelling' || current.worker_id !== this.workerId) {
+        console.warn(`⚠️ Batch ${batchId} is no longer owned by this worker (status: ${current?.status ?? 'unknown'}), skipping finalization`);
+        return;
+      }
+
+      finalStatus = 'cancelled';
+    }
+
+    if (finalStatus === 'expired') {
+      await this.failExpiredRequests(batchId, run);
+    }
+
+    // Fichiers de sortie (uniquement s'ils contiennent des lignes), dans l'ordre du fichier d'entrée
+    const outputFile = await this.writeResultsFile(row, 'succeeded', `${batchId}_output.jsonl`);
+    const errorFile = await this.writeResultsFile(row, 'failed', `${batchId}_error.jsonl`);
+
+    const now = new Date().toISOString();
+    const finalUpdate: Partial<BatchRow> = {
+      status: finalStatus,
+      output_file_id: outputFile,
+      error_file_id: errorFile,
+      completed_requests: run.succeeded,
+      failed_requests: run.failed
+    };
+
+    if (finalStatus === 'cancelled') {
+      finalUpdate.cancelled_at = now;
+    } else if (finalStatus === 'expired') {
+      finalUpdate.expired_at = now;
+    } else {
+      finalUpdate.completed_at = now;
+    }
+
+    const { error: updateError } = await supabase
+      .from('batches')
+      .update(finalUpdate)
+      .eq('id', batchId)
+      .eq('worker_id', this.workerId)
+      .eq('status', finalStatus === 'cancelled' ? 'cancelling' : 'finalizing');
+
+    if (updateError) {
+      throw new Error(`Failed to finalize batch: ${updateError.message}`);
+    }
+
+    console.log(`✅ Batch ${batchId} ${finalStatus}: ${run.succeeded} succeeded, ${run.failed} failed`);
+  }
+
+  /**
+   * Assemble les résultats d'un statut en fichier JSONL
+   * @returns ID du fichier, ou null si aucune ligne
+   */
+  private async writeResultsFile(row: BatchRow, status: 'succeeded' | 'failed', filename: string): Promise<string | null> {
+    const chunks: string[] = [];
+    let afterIndex = -1;
+    let results = await this.fetchRequests(row.id, status, afterIndex);
+
+    while (results.length > 0) {
+      for (const result of results) {
+        if (result.output_line) {
+          chunks.push(JSON.stringify(result.output_line) + '\n');
+        }
+      }
+
+      afterIndex = results[results.length - 1].line_index;
+      results = await this.fetchRequests(row.id, status, afterIndex);
+    }
+
+    if (chunks.length === 0) {
+      return null;
+    }
+
+    const file = await createFile(row.user_id, filename, 'batch_output', chunks.join(''));
+    return file.id;
+  }
+
+  /**
+   * Exécute une requête du batch par le même chemin que /chat/completions (non-streaming) :
+   * validation, routage, réservation sur le wallet, fallback et logging des échecs
+   */
+  private async executeItem(batchId: string, item: BatchRequestRow, authData: AuthData): Promise<BatchOutputLine> {
+    const lineId = `batch_req_${uuidv4().replace(/-/g, '')}`;
+    const request: StandardRequest = { ...item.request_json, stream: false, _batchId: batchId };
+
+    try {
+      // Le solde est revérifié pendant le batch (cache balance)
+      const paymentCheck = await checkPaymentCapability(authData.user.id, undefined, authData.organization?.id);
+      if (!paymentCheck.canPay) {
+        return this.errorLine(lineId, item.custom_id, uuidv4(), 402, 'insufficient_funds_error', 'Insufficient funds');
+      }
+      await assertApiKeyBudget(authData);
+
+      const result = await requestHandler.handleChatCompletion(request, authData);
+
+      return {
+        id: lineId,
+        custom_id: item.custom_id,
+        response: {
+          status_code: 200,
+          request_id: request._routingMetadata?.request_id || uuidv4(),
+          body: result as ChatCompletion
+        },
+        error: null
+      };
+
+    } catch (error) {
+      const status = error && typeof error === 'object' && 'status' in error && typeof error.status === 'number'
+        ? error.status
+        : 500;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const type = error && typeof error === 'object' && 'code' in error && typeof error.code === 'string'
+        ? error.code
+        : 'api_error';
+
+      return this.errorLine(lineId, item.custom_id, request._routingMetadata?.request_id || uuidv4(), status, type, message);
+    }
+  }
+
+  private errorLine(
+    lineId: string,
+    customId: string,
+    requestId: string,
+    status: number,
+    type: string,
+    message: string
+  ): BatchOutputLine {
+    return {
+      id: lineId,
+      custom_id: customId,
+      response: {
+        status_code: status,
+        request_id: requestId,
+        body: { error: { message, type } }
+      },
+      error: null
+    };
+  }
+}
+
+// Instance singleton
+export const batchService = new BatchService();
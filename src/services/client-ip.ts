@@ -0,0 +1,179 @@
+import { isIP } from 'net';
+import type { Context } from 'hono';
+
+/**
+ * Adresse IP parsée (IPv4 sur 32 bits, IPv6 sur 128 bits)
+ */
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/**
+ * Plage CIDR parsée
+ */
+interface ParsedCidr extends ParsedIp {
+  prefixLength: number;
+}
+
+/**
+ * Normalise une adresse : zone IPv6 retirée, IPv4 mappée en IPv6 (::ffff:a.b.c.d) ramenée en IPv4
+ */
+function normalizeIp(ip: string): string {
+  const address = ip.trim().replace(/^\[|\]$/g, '').split('%')[0];
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : address;
+}
+
+function parseIpv4(ip: string): bigint {
+  return ip.split('.').reduce((value, octet) => (value << 8n) | BigInt(parseInt(octet, 10)), 0n);
+}
+
+function parseIpv6(ip: string): bigint {
+  let address = ip;
+
+  // Adresse IPv4 finale (ex: 64:ff9b::1.2.3.4) convertie en deux groupes hexadécimaux
+  const ipv4Tail = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const tail = parseIpv4(ipv4Tail[1]);
+    address = address.slice(0, -ipv4Tail[1].length) + `${(tail >> 16n).toString(16)}:${(tail & 0xffffn).toString(16)}`;
+  }
+
+  const [head, tail = ''] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = address.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+/**
+ * Parse une adresse IPv4 ou IPv6
+ * @returns null si l'adresse est invalide
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+
+  if (version === 4) {
+    return { version: 4, value: parseIpv4(address) };
+  }
+  if (version === 6) {
+    return { version: 6, value: parseIpv6(address) };
+  }
+  return null;
+}
+
+/**
+ * Parse une plage CIDR (ex: 10.0.0.0/8, 2001:db8::/32) ou une adresse seule
+ * @returns null si la plage est invalide
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefix] = cidr.trim().split('/');
+  const ip = parseIp(address);
+
+  if (!ip) {
+    return null;
+  }
+
+  const maxLength = ip.version === 4 ? 32 : 128;
+  const prefixLength = prefix === undefined ? maxLength : Number(prefix);
+
+  if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > maxLength) {
+    return null;
+  }
+
+  return { ...ip, prefixLength };
+}
+
+/**
+ * Vérifie si une adresse appartient à l'une des plages CIDR (plages invalides ignorées)
+ */
+export function ipMatchesCidrs(ip: string, cidrs: string[]): boolean {
+  const address = parseIp(ip);
+  if (!address) {
+    return false;
+  }
+
+  return cidrs.some(cidr => {
+    const range = parseCidr(cidr);
+    return !!range && rangeContains(range, address);
+  });
+}
+
+/**
+ * Vérifie si une plage CIDR est entièrement incluse dans l'une des plages (plages invalides ignorées)
+ */
+export function cidrWithinCidrs(cidr: string, cidrs: string[]): boolean {
+  const inner = parseCidr(cidr);
+  if (!inner) {
+    return false;
+  }
+
+  return cidrs.some(allowed => {
+    const range = parseCidr(allowed);
+    return !!range && range.prefixLength <= inner.prefixLength && rangeContains(range, inner);
+  });
+}
+
+/**
+ * Vérifie si une adresse appartient à une plage (comparaison des bits du préfixe)
+ */
+function rangeContains(range: ParsedCidr, address: ParsedIp): boolean {
+  if (range.version !== address.version) {
+    return false;
+  }
+
+  const shift = BigInt((address.version === 4 ? 32 : 128) - range.prefixLength);
+  return (address.value >> shift) === (range.value >> shift);
+}
+
+// Proxies de confiance (TRUSTED_PROXIES, plages CIDR séparées par des virgules) : seuls eux peuvent
+// renseigner x-forwarded-for. Sans configuration, l'adresse de la connexion est l'adresse du client.
+const trustedProxies = (process.env.TRUSTED_PROXIES || '')
+  .split(',')
+  .map(cidr => cidr.trim())
+  .filter(Boolean);
+
+for (const cidr of trustedProxies) {
+  if (!parseCidr(cidr)) {
+    console.warn(`⚠️ Invalid TRUSTED_PROXIES entry ignored: ${cidr}`);
+  }
+}
+
+/**
+ * Adresse de la connexion TCP : Bun passe le serveur en second argument de fetch (c.env)
+ * Hors serveur Bun (tests, autre adaptateur), l'adresse est inconnue
+ */
+function getRemoteAddress(c: Context): string | null {
+  const server = c.env as { requestIP?: (request: Request) => { address: string } | null } | undefined;
+  return server?.requestIP?.(c.req.raw)?.address || null;
+}
+
+/**
+ * Adresse IP du client
+ * La chaîne x-forwarded-for est parcourue depuis la connexion en ignorant les proxies de confiance :
+ * la première adresse non fiable est celle du client, les entrées précédentes pouvant être forgées
+ * @returns null si l'adresse de la connexion est inconnue
+ */
+export function getClientIp(c: Context): string | null {
+  const remoteAddress = getRemoteAddress(c);
+  if (!remoteAddress) {
+    return null;
+  }
+
+  const forwarded = (c.req.header('x-forwarded-for') || '')
+    .split(',')
+    .map(ip => ip.trim())
+    .filter(Boolean);
+  const chain = [...forwarded, remoteAddress];
+
+  let index = chain.length - 1;
+  while (index > 0 && ipMatchesCidrs(chain[index], trustedProxies)) {
+    index--;
+  }
+
+  return normalizeIp(chain[index]);
+}
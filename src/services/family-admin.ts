@@ -0,0 +1,354 @@
+import { supabase } from '../config/database.js';
+import { getAllModels } from './models.js';
+import { familyRoutingService } from './family-routing.js';
+import { getFamilySettings } from '../config/families.js';
+import type { FamilyConfig, FamilyRow, FamilyVersionRow } from '../types/index.js';
+
+/**
+ * Champs modifiables d'une famille (tout sauf l'identifiant)
+ */
+export type FamilyUpdate = Partial<Omit<FamilyConfig, 'family_id'>>;
+
+/**
+ * Restreint une requête aux familles globales (ownerId null) ou à celles d'un utilisateur
+ */
+function scopeToOwner<T extends { eq: (column: string, value: string) => T; is: (column: string, value: null) => T }>(
+  query: T,
+  ownerId: string | null
+): T {
+  return ownerId ? query.eq('owner_user_id', ownerId) : query.is('owner_user_id', null);
+}
+
+/**
+ * Extrait la configuration versionnée d'une ligne de la table family
+ */
+function toFamilyConfig(row: FamilyConfig): FamilyConfig {
+  return {
+    family_id: row.family_id,
+    display_name: row.display_name,
+    description: row.description,
+    evaluation_model_id: row.evaluation_model_id,
+    evaluation_provider: row.evaluation_provider,
+    is_active: row.is_active,
+    routing_config: row.routing_config
+  };
+}
+
+/**
+ * Vérifie que les modèles référencés par la famille existent dans la table models
+ * @param config - Configuration de la famille
+ * @returns Liste des erreurs (vide si la configuration est valide)
+ */
+export async function validateFamilyModels(config: FamilyConfig): Promise<string[]> {
+  const errors: string[] = [];
+  const allModels = await getAllModels();
+
+  const providersOf = (modelId: string): string[] =>
+    allModels
+      .filter(model => model.model_id === modelId || model.provider_model_id === modelId)
+      .map(model => model.provider);
+
+  config.routing_config.score_ranges.forEach((range, index) => {
+    const providers = providersOf(range.target_model);
+
+    if (providers.length === 0) {
+      errors.push(`score_ranges[${index}].target_model "${range.target_model}" does not exist in models`);
+      return;
+    }
+
+    const unknownProviders = (range.providers || []).filter(provider => !providers.includes(provider));
+    if (unknownProviders.length > 0) {
+      errors.push(`score_ranges[${index}].providers [${unknownProviders.join(', ')}] do not offer "${range.target_model}"`);
+    }
+  });
+
+  const fallbackProviders = providersOf(config.routing_config.fallback_model);
+  if (fallbackProviders.length === 0) {
+    errors.push(`routing_config.fallback_model "${config.routing_config.fallback_model}" does not exist in models`);
+  } else if (config.routing_config.fallback_provider && !fallbackProviders.includes(config.routing_config.fallback_provider)) {
+    errors.push(`routing_config.fallback_provider "${config.routing_config.fallback_provider}" does not offer "${config.routing_config.fallback_model}"`);
+  }
+
+  const hasEvaluationModel = allModels.some(model =>
+    model.model_id === config.evaluation_model_id && model.provider === config.evaluation_provider
+  );
+  if (!hasEvaluationModel) {
+    errors.push(`evaluation model "${config.evaluation_model_id}" is not available from provider "${config.evaluation_provider}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Liste les familles
+ * @param includeInactive - Inclure les familles désactivées
+ * @param ownerId - Propriétaire des familles privées (null : familles globales)
+ */
+export async function listFamilies(includeInactive: boolean = true, ownerId: string | null = null): Promise<FamilyRow[]> {
+  let query = supabase
+    .from('family')
+    .select('*')
+    .order('family_id', { ascending: true });
+
+  query = scopeToOwner(query, ownerId);
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list families: ${error.message}`);
+  }
+
+  return (data || []) as FamilyRow[];
+}
+
+/**
+ * Récupère une famille (active ou non)
+ * @returns La famille ou null si introuvable
+ */
+export async function getFamily(familyId: string, ownerId: string | null = null): Promise<FamilyRow | null> {
+  const { data, error } = await scopeToOwner(supabase
+    .from('family')
+    .select('*')
+    .eq('family_id', familyId), ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch family: ${error.message}`);
+  }
+
+  return (data as FamilyRow | null) || null;
+}
+
+/**
+ * Nombre de familles privées d'un utilisateur (actives ou non)
+ */
+export async function countUserFamilies(ownerId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('family')
+    .select('family_id', { count: 'exact', head: true })
+    .eq('owner_user_id', ownerId);
+
+  if (error) {
+    throw new Error(`Failed to count families: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Enregistre une version dans l'historique
+ */
+async function recordVersion(config: FamilyConfig, version: number, userId: string, ownerId: string | null): Promise<void> {
+  const row: FamilyVersionRow = {
+    family_id: config.family_id,
+    owner_user_id: ownerId,
+    version,
+    config: toFamilyConfig(config),
+    created_by: userId,
+    created_at: new Date().toISOString()
+  };
+
+  const { error } = await supabase.from('family_versions').insert(row);
+
+  if (error) {
+    throw new Error(`Failed to record family version: ${error.message}`);
+  }
+}
+
+/**
+ * Crée une famille (version 1)
+ * @param config - Configuration validée
+ * @param userId - Utilisateur à l'origine de la création
+ * @param ownerId - Propriétaire pour une famille privée (limitée à settings.max_families_per_user)
+ */
+export async function createFamily(config: FamilyConfig, userId: string, ownerId: string | null = null): Promise<FamilyRow> {
+  const existing = await getFamily(config.family_id, ownerId);
+  if (existing) {
+    throw new Error(`Family already exists: ${config.family_id}`);
+  }
+
+  if (ownerId) {
+    const { max_families_per_user } = getFamilySettings();
+    if (await countUserFamilies(ownerId) >= max_families_per_user) {
+      throw new Error(`Family limit reached: at most ${max_families_per_user} families per user`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const row: FamilyRow = {
+    ...toFamilyConfig(config),
+    owner_user_id: ownerId,
+    version: 1,
+    created_at: now,
+    updated_at: now
+  };
+
+  const { error } = await supabase.from('family').insert(row);
+
+  if (error) {
+    throw new Error(`Failed to create family: ${error.message}`);
+  }
+
+  await recordVersion(row, row.version, userId, ownerId);
+  familyRoutingService.invalidateFamily(config.family_id, ownerId);
+
+  console.log(`👪 Family ${config.family_id} created (v1)`);
+  return row;
+}
+
+/**
+ * Met à jour une famille : chaque modification crée une nouvelle version
+ * @param familyId - ID de la famille
+ * @param update - Champs modifiés
+ * @param userId - Administrateur à l'origine de la modification
+ * @param validate - Validation de la configuration fusionnée (erreurs retournées par la route)
+ * @param ownerId - Propriétaire pour une famille privée
+ * @returns La famille mise à jour, ou null si introuvable
+ */
+export async function updateFamily(
+  familyId: string,
+  update: FamilyUpdate,
+  userId: string,
+  validate?: (config: FamilyConfig) => Promise<string[]>,
+  ownerId: string | null = null
+): Promise<FamilyRow | null> {
+  const existing = await getFamily(familyId, ownerId);
+  if (!existing) {
+    return null;
+  }
+
+  const config: FamilyConfig = {
+    ...toFamilyConfig(existing),
+    ...update,
+    family_id: familyId
+  };
+
+  if (validate) {
+    const errors = await validate(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid family configuration: ${errors.join('; ')}`);
+    }
+  }
+
+  const row: FamilyRow = {
+    ...config,
+    owner_user_id: ownerId,
+    version: (existing.version || 1) + 1,
+    created_at: existing.created_at,
+    updated_at: new Date().toISOString()
+  };
+
+  const { error } = await scopeToOwner(supabase
+    .from('family')
+    .update(row)
+    .eq('family_id', familyId), ownerId);
+
+  if (error) {
+    throw new Error(`Failed to update family: ${error.message}`);
+  }
+
+  await recordVersion(row, row.version, userId, ownerId);
+  familyRoutingService.invalidateFamily(familyId, ownerId);
+
+  console.log(`👪 Family ${familyId} updated (v${row.version})`);
+  return row;
+}
+
+/**
+ * Active ou désactive une famille (crée une nouvelle version)
+ * Les modèles référencés sont revérifiés à l'activation
+ */
+export async function setFamilyActive(
+  familyId: string,
+  isActive: boolean,
+  userId: string,
+  ownerId: string | null = null
+): Promise<FamilyRow | null> {
+  return updateFamily(familyId, { is_active: isActive }, userId, isActive ? validateFamilyModels : undefined, ownerId);
+}
+
+/**
+ * Supprime une famille privée et son historique
+ * @returns false si la famille est introuvable
+ */
+export async function deleteUserFamily(familyId: string, ownerId: string): Promise<boolean> {
+  const existing = await getFamily(familyId, ownerId);
+  if (!existing) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('family')
+    .delete()
+    .eq('family_id', familyId)
+    .eq('owner_user_id', ownerId);
+
+  if (error) {
+    throw new Error(`Failed to delete family: ${error.message}`);
+  }
+
+  const { error: versionsError } = await supabase
+    .from('family_versions')
+    .delete()
+    .eq('family_id', familyId)
+    .eq('owner_user_id', ownerId);
+
+  if (versionsError) {
+    console.warn(`⚠️ Failed to delete versions of family ${familyId}:`, versionsError.message);
+  }
+
+  familyRoutingService.invalidateFamily(familyId, ownerId);
+
+  console.log(`👪 Family ${familyId} deleted (owner ${ownerId})`);
+  return true;
+}
+
+/**
+ * Historique des versions d'une famille, de la plus récente à la plus ancienne
+ */
+export async function listFamilyVersions(familyId: string, ownerId: string | null = null): Promise<FamilyVersionRow[]> {
+  const { data, error } = await scopeToOwner(supabase
+    .from('family_versions')
+    .select('*')
+    .eq('family_id', familyId), ownerId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list family versions: ${error.message}`);
+  }
+
+  return (data || []) as FamilyVersionRow[];
+}
+
+/**
+ * Restaure la configuration d'une version précédente (en créant une nouvelle version)
+ * @returns La famille mise à jour, ou null si la famille ou la version est introuvable
+ */
+export async function restoreFamilyVersion(
+  familyId: string,
+  version: number,
+  userId: string,
+  ownerId: string | null = null
+): Promise<FamilyRow | null> {
+  const { data, error } = await scopeToOwner(supabase
+    .from('family_versions')
+    .select('*')
+    .eq('family_id', familyId)
+    .eq('version', version), ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch family version: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const { family_id, ...config } = (data as FamilyVersionRow).config;
+  return updateFamily(familyId, config, userId, validateFamilyModels, ownerId);
+}
@@ -1,48 +1,139 @@
 // src/services/family-routing.ts
 
+import { createHash } from 'crypto';
 import { supabase } from '../config/database.js';
+import { cacheUtils } from '../config/cache.js';
 import { createAdapter } from '../adapters/index.js';
-import type { StandardRequest, FamilyConfig, RoutingResult, ComplexityEvaluation } from '../types/index.js';
+import type { StandardRequest, FamilyConfig, RoutingResult, RoutingTarget, ComplexityEvaluation, FamilyRoutingExplanation } from '../types/index.js';
 import { ta } from 'zod/v4/locales';
 
+/**
+ * Prompt d'évaluation par défaut (routing_config.evaluation_prompt le remplace)
+ */
+const DEFAULT_EVALUATION_PROMPT = `Rate the complexity (1-100) of what the AI assistant is about to do in its response.
+
+**Analyze the assistant's intended action:**
+- Is it about to analyze/discover/investigate something complex?
+- Is it planning or architecting a solution?
+- Is it implementing something with a clear path forward?
+- Is it applying a fix that was already identified?
+
+**Context clues from the conversation:**
+- What groundwork exists from previous exchanges?
+- How much cognitive load is needed for the assistant's next step?
+- Is this continuing established analysis or starting fresh investigation?
+
+**Think like this:** If you were the AI assistant about to respond, how much mental effort would your specific next action require?
+
+Respond each questions very briefly (max 10 words each), and at the end, respond with a final score (integer from 1 to 100).`;
+
+/**
+ * L'appel au modèle d'évaluation a dépassé evaluation_timeout_ms
+ */
+class EvaluationTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Complexity evaluation timed out after ${timeoutMs}ms`);
+    this.name = 'EvaluationTimeoutError';
+  }
+}
+
+/**
+ * Préfixe des familles privées, propres à un utilisateur (ex: user:myteam/router)
+ */
+export const USER_FAMILY_PREFIX = 'user:';
+
+/**
+ * Vérifie si un identifiant désigne une famille privée
+ */
+export function isUserFamilyId(familyId: string): boolean {
+  return familyId.startsWith(USER_FAMILY_PREFIX);
+}
+
 export class FamilyRoutingService {
   private readonly modelConfigCache = new Map<string, any>();
 
   /**
    * Vérifie si un model_id correspond à une famille
+   * @param userId - Utilisateur courant, requis pour résoudre ses familles privées
    */
-  async isFamilyModel(modelId: string): Promise<boolean> {
+  async isFamilyModel(modelId: string, userId?: string): Promise<boolean> {
     if (!modelId || typeof modelId !== 'string') {
       return false;
     }
 
-    const { data } = await supabase
-      .from('family')
-      .select('family_id')
-      .eq('family_id', modelId)
-      .eq('is_active', true)
-      .maybeSingle();
-    
-    const found = !!data;
+    const found = !!(await this.loadFamilyConfig(modelId, userId));
     return found;
   }
 
   /**
    * Récupère la configuration d'une famille
+   * Une famille privée n'est visible que par son propriétaire
+   */
+  async getFamilyConfig(familyId: string, userId?: string): Promise<FamilyConfig | null> {
+    const config = await this.loadFamilyConfig(familyId, userId);
+
+    if (!config) {
+      console.error(`[FamilyRoutingService] getFamilyConfig: ${familyId} not found or inactive`);
+      return null;
+    }
+    return config;
+  }
+
+  /**
+   * Invalide la configuration en cache d'une famille (appelé par l'API d'administration)
+   * @param ownerId - Propriétaire pour une famille privée
+   */
+  invalidateFamily(familyId: string, ownerId: string | null = null): void {
+    const scopedId = this.getScopedFamilyId(familyId, ownerId ?? undefined);
+    if (scopedId) {
+      cacheUtils.invalidateFamily(scopedId);
+    }
+  }
+
+  /**
+   * Identifiant de cache d'une famille : les familles privées sont préfixées par leur propriétaire
+   * @returns null pour une famille privée sans utilisateur
+   */
+  private getScopedFamilyId(familyId: string, userId?: string): string | null {
+    if (!isUserFamilyId(familyId)) {
+      return familyId;
+    }
+    return userId ? `${userId}/${familyId}` : null;
+  }
+
+  /**
+   * Charge la configuration d'une famille active, avec cache (les absences sont aussi mises en cache)
    */
-  async getFamilyConfig(familyId: string): Promise<FamilyConfig | null> {
-    const { data, error } = await supabase
+  private async loadFamilyConfig(familyId: string, userId?: string): Promise<FamilyConfig | null> {
+    const scopedId = this.getScopedFamilyId(familyId, userId);
+    if (!scopedId) {
+      return null;
+    }
+
+    const cached = cacheUtils.getFamilyConfig(scopedId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const query = supabase
       .from('family')
       .select('*')
       .eq('family_id', familyId)
-      .eq('is_active', true)
-      .single();
+      .eq('is_active', true);
+
+    const { data, error } = await (isUserFamilyId(familyId)
+      ? query.eq('owner_user_id', userId!)
+      : query.is('owner_user_id', null)
+    ).maybeSingle();
 
-    if (error || !data) {
-      console.error(`[FamilyRoutingService] getFamilyConfig: not found or error`, error);
+    if (error) {
+      console.error(`[FamilyRoutingService] loadFamilyConfig: failed to load ${familyId}`, error);
       return null;
     }
-    return data as FamilyConfig;
+
+    const config = (data as FamilyConfig | null) || null;
+    cacheUtils.setFamilyConfig(scopedId, config);
+    return config;
   }
 
   /**
@@ -50,9 +141,13 @@ export class FamilyRoutingService {
    */
   async evaluateAndRoute(
     familyId: string, 
-    request: StandardRequest
+    request: StandardRequest,
+    userId?: string
   ): Promise<RoutingResult> {
 
+    // Clé calculée avant la compression, qui modifie les messages
+    const prefixHash = this.getConversationPrefixHash(request);
+
     // Compression conditionnelle si champ présent
     if (request.compression === true) {
       if (Array.isArray(request.messages)) {
@@ -61,15 +156,47 @@ export class FamilyRoutingService {
     }
 
     // 1. Récupérer la config de la famille
-    const config = await this.getFamilyConfig(familyId);
+    const config = await this.getFamilyConfig(familyId, userId);
     if (!config) {
       console.error(`[FamilyRoutingService] evaluateAndRoute: Family ${familyId} not found`);
       throw new Error(`Family ${familyId} not found`);
     }
 
 
-    // 2. Évaluer la complexité
-    const evaluation = await this.evaluateComplexity(request, config);
+    // 2. Évaluer la complexité (score en cache pour ce préfixe de conversation si disponible)
+    const scopedId = this.getScopedFamilyId(familyId, userId) ?? familyId;
+    const cacheTtlSeconds = (config.routing_config.cache_duration_minutes || 0) * 60;
+    const cachedScore = cacheTtlSeconds > 0 ? cacheUtils.getFamilyEvaluation(scopedId, prefixHash) : undefined;
+    const fromCache = cachedScore !== undefined;
+
+    let evaluation: ComplexityEvaluation;
+    if (cachedScore !== undefined) {
+      evaluation = { score: cachedScore, cost: 0, tokens: { input: 0, output: 0, total: 0 } };
+    } else {
+      try {
+        evaluation = await this.evaluateComplexity(request, config);
+      } catch (error) {
+        if (!(error instanceof EvaluationTimeoutError)) {
+          throw error;
+        }
+
+        console.warn(`[FamilyRoutingService] ${error.message}, using fallback model ${config.routing_config.fallback_model}`);
+        return {
+          selectedModel: config.routing_config.fallback_model,
+          selectedProviders: this.getFallbackProviders(config),
+          stepDownTargets: [],
+          complexityScore: null,
+          reasoning: 'timeout',
+          evaluationCost: 0,
+          evaluationTokens: 0,
+          fromCache: false
+        };
+      }
+
+      if (cacheTtlSeconds > 0 && !evaluation.fallback) {
+        cacheUtils.setFamilyEvaluation(scopedId, prefixHash, evaluation.score, cacheTtlSeconds);
+      }
+    }
 
     // 3. Choisir le modèle basé sur le score
     const selectedRange = config.routing_config.score_ranges.find(
@@ -79,32 +206,162 @@ export class FamilyRoutingService {
     if (!selectedRange) {
       console.warn(`[FamilyRoutingService] No matching score range for score ${evaluation.score}, using fallback`);
       // Fallback
-      const fallbackResult = {
+      const fallbackResult: RoutingResult = {
         selectedModel: config.routing_config.fallback_model,
-        selectedProvider: config.routing_config.fallback_provider,
+        selectedProviders: this.getFallbackProviders(config),
+        stepDownTargets: [],
         complexityScore: evaluation.score,
         reasoning: 'Fallback - no matching score range',
         evaluationCost: evaluation.cost,
         evaluationTokens: evaluation.tokens.total,
-        fromCache: false
+        fromCache
       };
       return fallbackResult;
     }
 
     const result: RoutingResult = {
       selectedModel: selectedRange.target_model,
-      selectedProvider: config.routing_config.fallback_provider,
+      selectedProviders: selectedRange.providers?.length ? selectedRange.providers : null,
+      ratioSp: selectedRange.ratio_sp,
+      stepDownTargets: this.getStepDownTargets(config, selectedRange),
       complexityScore: evaluation.score,
       reasoning: selectedRange.reason,
       evaluationCost: evaluation.cost,
       evaluationTokens: evaluation.tokens.total,
-      fromCache: false
+      fromCache
     };
 
     console.log(`[FamilyRoutingService] rerouting result for family ${familyId}:`, result.complexityScore, result.selectedModel);
     return result;
   }
 
+  /**
+   * Explique le routage d'une famille sans appeler le modèle d'évaluation
+   * Le score provient de scoreOverride ou du cache ; à défaut, toutes les tranches sont retournées
+   * @returns null si la famille est introuvable
+   */
+  async explainRoute(
+    familyId: string,
+    request: StandardRequest,
+    userId?: string,
+    scoreOverride?: number
+  ): Promise<FamilyRoutingExplanation | null> {
+    const config = await this.loadFamilyConfig(familyId, userId);
+    if (!config) {
+      return null;
+    }
+
+    const scopedId = this.getScopedFamilyId(familyId, userId) ?? familyId;
+    const cachedScore = scoreOverride === undefined
+      ? cacheUtils.getFamilyEvaluation(scopedId, this.getConversationPrefixHash(request))
+      : undefined;
+    const score = scoreOverride ?? cachedScore;
+
+    if (score === undefined) {
+      const targets: RoutingTarget[] = [...config.routing_config.score_ranges]
+        .sort((a, b) => b.max_score - a.max_score)
+        .map(range => ({
+          model: range.target_model,
+          providers: range.providers?.length ? range.providers : null,
+          ratioSp: range.ratio_sp
+        }));
+      targets.push({ model: config.routing_config.fallback_model, providers: this.getFallbackProviders(config) });
+
+      return {
+        family_id: familyId,
+        score: null,
+        score_source: null,
+        selected_range: null,
+        reasoning: null,
+        targets: targets.filter((target, index) => targets.findIndex(other => other.model === target.model) === index)
+      };
+    }
+
+    const selectedRange = config.routing_config.score_ranges.find(
+      range => score >= range.min_score && score <= range.max_score
+    );
+
+    return {
+      family_id: familyId,
+      score,
+      score_source: scoreOverride !== undefined ? 'override' : 'cache',
+      selected_range: selectedRange || null,
+      reasoning: selectedRange ? selectedRange.reason : 'Fallback - no matching score range',
+      targets: selectedRange
+        ? [
+            {
+              model: selectedRange.target_model,
+              providers: selectedRange.providers?.length ? selectedRange.providers : null,
+              ratioSp: selectedRange.ratio_sp
+            },
+            ...this.getStepDownTargets(config, selectedRange)
+          ]
+        : [{ model: config.routing_config.fallback_model, providers: this.getFallbackProviders(config) }]
+    };
+  }
+
+  /**
+   * Modèles de repli si tous les providers du modèle choisi échouent :
+   * les tranches de score inférieures (de la plus proche à la plus basse), puis fallback_model
+   */
+  private getStepDownTargets(
+    config: FamilyConfig,
+    selectedRange: FamilyConfig['routing_config']['score_ranges'][number]
+  ): RoutingTarget[] {
+    const targets: RoutingTarget[] = config.routing_config.score_ranges
+      .filter(range => range.max_score < selectedRange.min_score)
+      .sort((a, b) => b.max_score - a.max_score)
+      .map(range => ({
+        model: range.target_model,
+        providers: range.providers?.length ? range.providers : null,
+        ratioSp: range.ratio_sp
+      }));
+
+    targets.push({
+      model: config.routing_config.fallback_model,
+      providers: this.getFallbackProviders(config)
+    });
+
+    // Un même modèle n'est tenté qu'une fois
+    const seen = new Set<string>([selectedRange.target_model]);
+    return targets.filter(target => {
+      if (seen.has(target.model)) {
+        return false;
+      }
+      seen.add(target.model);
+      return true;
+    });
+  }
+
+  /**
+   * Providers du modèle de fallback (tous si fallback_provider n'est pas renseigné)
+   */
+  private getFallbackProviders(config: FamilyConfig): string[] | null {
+    return config.routing_config.fallback_provider ? [config.routing_config.fallback_provider] : null;
+  }
+
+  /**
+   * Hash du préfixe de conversation jusqu'au dernier message utilisateur
+   * Les tours d'une boucle agent (réponses assistant + résultats d'outils) partagent ce préfixe
+   * et réutilisent donc le score déjà calculé
+   */
+  private getConversationPrefixHash(request: StandardRequest): string {
+    const messages = request.messages || [];
+    let lastUserIndex = -1;
+    messages.forEach((message, index) => {
+      if (message.role === 'user') {
+        lastUserIndex = index;
+      }
+    });
+
+    const prefix = lastUserIndex >= 0 ? messages.slice(0, lastUserIndex + 1) : messages;
+    const toolNames = (request.tools || []).map(tool => tool.function.name);
+
+    return createHash('sha256')
+      .update(JSON.stringify({ messages: prefix, tools: toolNames }))
+      .digest('hex');
+  }
+
   /**
    * Compresse les messages en identifiant ceux qui peuvent être supprimés
    */
@@ -340,22 +597,7 @@ export class FamilyRoutingService {
       // 3. Instancier dynamiquement l'adapter
       const adapter = createAdapter(model.adapter, adapterConfig);
 
-      const evaluationPrompt = `Rate the complexity (1-100) of what the AI assistant is about to do in its response.
-
-      **Analyze the assistant's intended action:**
-      - Is it about to analyze/discover/investigate something complex?
-      - Is it planning or architecting a solution?
-      - Is it implementing something with a clear path forward?
-      - Is it applying a fix that was already identified?
-
-      **Context clues from the conversation:**
-      - What groundwork exists from previous exchanges?
-      - How much cognitive load is needed for the assistant's next step?
-      - Is this continuing established analysis or starting fresh investigation?
-
-      **Think like this:** If you were the AI assistant about to respond, how much mental effort would your specific next action require?
-
-      Respond each questions very briefly (max 10 words each), and at the end, respond with a final score (integer from 1 to 100).`
+      const evaluationPrompt = config.routing_config.evaluation_prompt ?? DEFAULT_EVALUATION_PROMPT;
 
       // Appliquer la compression puis la troncature des messages
       let processedMessages = request.messages || [];
@@ -396,11 +638,14 @@ export class FamilyRoutingService {
         temperature: 0
       };
 
-      // 5. Faire la requête d'évaluation DIRECTEMENT (sans logging)
-      const response = await adapter.makeRequest(
-        evaluationRequest, 
-        model.provider_model_id,
-        false
+      // 5. Faire la requête d'évaluation DIRECTEMENT (sans logging), bornée par evaluation_timeout_ms
+      const response = await this.withEvaluationTimeout(
+        signal => adapter.makeRequest(
+          { ...evaluationRequest, _abortSignal: signal },
+          model.provider_model_id,
+          false
+        ),
+        config.routing_config.evaluation_timeout_ms
       );
 
       if ('data' in response) {
@@ -434,14 +679,15 @@ export class FamilyRoutingService {
         );
       }
 
-      const evalResult = {
+      const evalResult: ComplexityEvaluation = {
         score: finalScore,
         cost: evaluationCost,
         tokens: {
           input: inputTokens,
           output: outputTokens,
           total: inputTokens + outputTokens
-        }
+        },
+        fallback: isNaN(score)
       };
 
       console.log(`[FamilyRoutingService] evaluateComplexity: Complexity score = ${finalScore}/100 (cost: $${evaluationCost.toFixed(6)}, tokens: ${inputTokens + outputTokens})`);
@@ -449,6 +695,11 @@ export class FamilyRoutingService {
       return evalResult;
 
     } catch (error) {
+      // Le timeout est géré par evaluateAndRoute (fallback_model)
+      if (error instanceof EvaluationTimeoutError) {
+        throw error;
+      }
+
       console.error('[FamilyRoutingService] Evaluation failed:', error);
       console.log(`[FamilyRoutingService] evaluateComplexity: Using fallback complexity score = 50/100`);
       // Fallback en cas d'erreur
@@ -459,11 +710,36 @@ export class FamilyRoutingService {
           input: 10,
           output: 5,
           total: 15
-        }
+        },
+        fallback: true
       };
     }
   }
 
+  /**
+   * Met en course l'appel d'évaluation et le timeout ; l'appel amont est annulé si le délai expire
+   */
+  private async withEvaluationTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    if (!timeoutMs || timeoutMs <= 0) {
+      return call(new AbortController().signal);
+    }
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new EvaluationTimeoutError(timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Calcule le coût d'une évaluation à la volée
    */
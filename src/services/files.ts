@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../config/database.js';
+import type { FileRow, FileObject, FilePurpose } from '../types/index.js';
+
+/**
+ * Taille maximale d'un fichier uploadé (100 MB), les fichiers de résultats de batch n'y sont pas soumis
+ */
+export const MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Convertit une ligne de la table files en objet File (format OpenAI)
+ * @param row - Ligne de la base
+ * @returns Objet File sans le contenu
+ */
+export function toFileObject(row: Pick<FileRow, 'id' | 'bytes' | 'created_at' | 'filename' | 'purpose'>): FileObject {
+  return {
+    id: row.id,
+    object: 'file',
+    bytes: row.bytes,
+    created_at: Math.floor(new Date(row.created_at).getTime() / 1000),
+    filename: row.filename,
+    purpose: row.purpose
+  };
+}
+
+/**
+ * Stocke un fichier pour un utilisateur
+ * @param userId - ID de l'utilisateur
+ * @param filename - Nom du fichier
+ * @param purpose - Usage du fichier (batch, batch_output)
+ * @param content - Contenu texte (JSONL)
+ * @returns Objet File créé
+ */
+export async function createFile(
+  userId: string,
+  filename: string,
+  purpose: FilePurpose,
+  content: string
+): Promise<FileObject> {
+  const bytes = Buffer.byteLength(content, 'utf8');
+  if (purpose !== 'batch_output' && bytes > MAX_FILE_BYTES) {
+    throw new Error(`Invalid file: size exceeds ${MAX_FILE_BYTES} bytes`);
+  }
+
+  const row = {
+    id: `file-${uuidv4().replace(/-/g, '')}`,
+    user_id: userId,
+    filename,
+    purpose,
+    bytes,
+    content,
+    created_at: new Date().toISOString()
+  };
+
+  const { error } = await supabase.from('files').insert(row);
+
+  if (error) {
+    throw new Error(`Failed to store file: ${error.message}`);
+  }
+
+  return toFileObject(row);
+}
+
+/**
+ * Récupère les métadonnées d'un fichier appartenant à l'utilisateur
+ * @param userId - ID de l'utilisateur
+ * @param fileId - ID du fichier
+ * @returns Objet File ou null si introuvable
+ */
+export async function getFile(userId: string, fileId: string): Promise<FileObject | null> {
+  const { data, error } = await supabase
+    .from('files')
+    .select('id, bytes, created_at, filename, purpose')
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch file: ${error.message}`);
+  }
+
+  return data ? toFileObject(data) : null;
+}
+
+/**
+ * Récupère le contenu d'un fichier appartenant à l'utilisateur
+ * @param userId - ID de l'utilisateur
+ * @param fileId - ID du fichier
+ * @returns Contenu texte ou null si introuvable
+ */
+export async function getFileContent(userId: string, fileId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('files')
+    .select('content')
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch file content: ${error.message}`);
+  }
+
+  return data ? data.content : null;
+}
+
+/**
+ * Liste les fichiers d'un utilisateur (du plus récent au plus ancien)
+ * @param userId - ID de l'utilisateur
+ * @param purpose - Filtre optionnel sur l'usage
+ * @returns Liste des objets File
+ */
+export async function listFiles(userId: string, purpose?: string): Promise<FileObject[]> {
+  let query = supabase
+    .from('files')
+    .select('id, bytes, created_at, filename, purpose')
+    .eq('user_id', userId);
+
+  if (purpose) {
+    query = query.eq('purpose', purpose);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(1000);
+
+  if (error) {
+    throw new Error(`Failed to list files: ${error.message}`);
+  }
+
+  return (data || []).map(toFileObject);
+}
+
+/**
+ * Supprime un fichier appartenant à l'utilisateur
+ * @param userId - ID de l'utilisateur
+ * @param fileId - ID du fichier
+ * @returns true si le fichier a été supprimé
+ */
+export async function deleteFile(userId: string, fileId: string): Promise<boolean> {
+  const existing = await getFile(userId, fileId);
+  if (!existing) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('files')
+    .delete()
+    .eq('id', fileId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete file: ${error.message}`);
+  }
+
+  return true;
+}
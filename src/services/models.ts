@@ -1,6 +1,9 @@
 import { supabase } from '../config/database.js';
 import { modelsCache, cacheUtils } from '../config/cache.js';
 import { familyRoutingService } from './family-routing.js';
+import { providerHealth } from './provider-health.js';
+import { calculateTokens } from './request-processor.js';
+import { ApiKeyLimitError, assertModelAllowed } from './api-key-limits.js';
 import type { 
   Model, 
   StandardRequest, 
@@ -9,6 +12,10 @@ import type {
   ModelPerformanceMetrics,
   ModelVectorScore,
   ExtendedModelInfo,
+  RoutingInfo,
+  RoutingTarget,
+  ModelRoutingTrace,
+  RoutingExplanation,
 } from '../types/index.js';
 
 /**
@@ -115,6 +122,10 @@ interface FilterOptions {
   providers?: string[];
   ratio_sp?: number;
   metricsWindowSize?: number;
+  trace?: ModelRoutingTrace;         // Rempli pour /v1/routing/explain (circuit breaker consulté sans être modifié)
+  allowedModels?: string[] | null;    // Restrictions de la clé API (voir getApiKeyRestrictions)
+  allowedProviders?: string[] | null;
+  requireEmbeddings?: boolean;       // /v1/embeddings : uniquement les modèles model_type = 'embedding'
 }
 
 /**
@@ -369,24 +380,70 @@ async function calculateModelVectorScore(
 }
 
 /**
- * Fonction helper pour estimer les tokens d'une requête
+ * Tokens d'une image selon son niveau de détail (tuiles de 512px : 85 + 170 par tuile)
+ * "high" est borné au pire cas (8 tuiles), "auto" correspond à une image 1024x1024
  */
-function estimateTokensFromRequest(request: StandardRequest): number {
-  let estimatedTokens = 0;
+const IMAGE_DETAIL_TOKENS = {
+  low: 85,
+  auto: 765,
+  high: 1445
+} as const;
+
+// Surcoût de formatage par message (rôle, séparateurs) et amorce de la réponse
+const TOKENS_PER_MESSAGE = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Estime les tokens d'une requête (prompt + max_tokens réservés pour la réponse)
+ * @param request - Requête standardisée
+ * @param tokenizerName - Tokenizer tiktoken du modèle candidat (sinon approximation length / 4)
+ */
+function estimateTokensFromRequest(request: StandardRequest, tokenizerName?: string): number {
+  let useTokenizer = !!tokenizerName;
+
+  const countText = (text: string | undefined): number => {
+    if (!text) {
+      return 0;
+    }
+
+    if (useTokenizer) {
+      try {
+        return calculateTokens(text, tokenizerName!);
+      } catch {
+        // Tokenizer inconnu de tiktoken : approximation pour le reste de la requête
+        useTokenizer = false;
+      }
+    }
+
+    return Math.ceil(text.length / 4);
+  };
+
+  let estimatedTokens = REPLY_PRIMING_TOKENS;
   
   request.messages?.forEach(message => {
+    estimatedTokens += TOKENS_PER_MESSAGE;
+
     if (typeof message.content === 'string') {
-      estimatedTokens += Math.ceil(message.content.length / 4);
+      estimatedTokens += countText(message.content);
     } else if (Array.isArray(message.content)) {
       message.content.forEach(item => {
-        if (item.type === 'text' && item.text) {
-          estimatedTokens += Math.ceil(item.text.length / 4);
+        if (item.type === 'text') {
+          estimatedTokens += countText(item.text);
         } else if (item.type === 'image_url') {
-          estimatedTokens += 1000; // Estimation pour les images
+          estimatedTokens += IMAGE_DETAIL_TOKENS[item.image_url?.detail || 'auto'];
         }
       });
     }
+
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      estimatedTokens += countText(JSON.stringify(message.tool_calls));
+    }
   });
+
+  // Les schémas des tools sont injectés dans le prompt par les providers
+  if (request.tools && request.tools.length > 0) {
+    estimatedTokens += countText(JSON.stringify(request.tools));
+  }
   
   return estimatedTokens + (request.max_tokens || 1000);
 }
@@ -413,37 +470,79 @@ export async function filterProviders(
     throw new Error('model_id is required and must be specified');
   }
 
+  // Une famille autorisée par la clé API donne accès à ses modèles cibles
+  assertModelAllowed(filterOptions.allowedModels, modelId);
+
   // 🆕 VÉRIFIER SI C'EST UNE FAMILLE
-  if (await familyRoutingService.isFamilyModel(modelId)) {
+  if (await familyRoutingService.isFamilyModel(modelId, userId)) {
     console.log(`🔀 Routing family model: ${modelId}`);
     
     try {
       // Évaluer et router
-      const routingResult = await familyRoutingService.evaluateAndRoute(modelId, request);
+      const routingResult = await familyRoutingService.evaluateAndRoute(modelId, request, userId);
       
       console.log(`🎯 Routed to: ${routingResult.selectedModel} (score: ${routingResult.complexityScore}, ${routingResult.fromCache ? 'cached' : 'evaluated'})`);
       
-      // Modifier la requête pour utiliser le modèle sélectionné
-      const modifiedRequest: StandardRequest = {
-        ...request,
-        model: routingResult.selectedModel,
-        provider: [routingResult.selectedProvider],
-        _routingInfo: {
-          originalFamily: modelId,
-          selectedModel: routingResult.selectedModel,
-          selectedProvider: routingResult.selectedProvider,
-          complexityScore: routingResult.complexityScore,
-          evaluationCost: routingResult.evaluationCost,
-          evaluationTokens: routingResult.evaluationTokens,
-          reasoning: routingResult.reasoning
-        }
+      const routingInfo: RoutingInfo = {
+        originalFamily: modelId,
+        selectedModel: routingResult.selectedModel,
+        selectedProviders: routingResult.selectedProviders,
+        complexityScore: routingResult.complexityScore,
+        evaluationCost: routingResult.evaluationCost,
+        evaluationTokens: routingResult.evaluationTokens,
+        reasoning: routingResult.reasoning
       };
-      
-      // Continuer avec la logique normale en utilisant le modèle sélectionné
-      return await filterProvidersNormal(modifiedRequest, userId, userPreferences, filterOptions);
+
+      // Rendre les infos de routing disponibles pour le logging et la facturation
+      request._routingInfo = routingInfo;
+
+      // Classer les providers du modèle choisi, puis ceux des tranches inférieures (step-down)
+      const targets: RoutingTarget[] = [
+        { model: routingResult.selectedModel, providers: routingResult.selectedProviders, ratioSp: routingResult.ratioSp },
+        ...routingResult.stepDownTargets
+      ];
+
+      const combinations: ProviderCombination[] = [];
+      let firstError: unknown = null;
+
+      for (const target of targets) {
+        const targetRequest: StandardRequest = {
+          ...request,
+          model: target.model,
+          provider: target.providers ?? request.provider,
+          _routingInfo: routingInfo
+        };
+
+        try {
+          const targetCombinations = await filterProvidersNormal(targetRequest, userId, userPreferences, {
+            ...filterOptions,
+            ratio_sp: target.ratioSp ?? filterOptions.ratio_sp
+          });
+
+          combinations.push(...targetCombinations.filter(combination =>
+            !combinations.some(existing => existing.provider === combination.provider && existing.modelId === combination.modelId)
+          ));
+        } catch (error) {
+          console.warn(`⚠️ Family target ${target.model} unavailable: ${error instanceof Error ? error.message : error}`);
+          firstError = firstError ?? error;
+        }
+      }
+
+      if (combinations.length === 0) {
+        throw firstError || new Error(`No provider available for model_id: ${routingResult.selectedModel}`);
+      }
+
+      if (routingResult.stepDownTargets.length > 0) {
+        console.log(`🪜 Step-down chain: ${targets.map(target => target.model).join(' → ')}`);
+      }
+
+      return combinations;
       
     } catch (error) {
       console.error(`❌ Family routing failed for ${modelId}:`, error);
+      if (error instanceof ApiKeyLimitError) {
+        throw error;
+      }
       throw new Error(`Family routing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -487,8 +586,51 @@ async function filterProvidersNormal(
   );
   //console.log(`   - Vision required: ${hasImages ? 'YES' : 'NO'}`);
   
-  const totalTokens = estimateTokensFromRequest(request);
-  //console.log(`   - Estimated tokens: ${totalTokens}`);
+  // Estimation par tokenizer : chaque candidat est comparé à sa propre fenêtre de contexte
+  const tokenCounts = new Map<string, number>();
+  const getRequestTokens = (model: Model): number => {
+    const key = model.tokenizer_name || '';
+    let count = tokenCounts.get(key);
+    if (count === undefined) {
+      count = estimateTokensFromRequest(request, model.tokenizer_name);
+      tokenCounts.set(key, count);
+    }
+    return count;
+  };
+
+  const requestProviders = request.provider;
+  const providerList = requestProviders && ((Array.isArray(requestProviders) && requestProviders.length > 0) || typeof requestProviders === 'string')
+    ? (Array.isArray(requestProviders) ? requestProviders : [requestProviders])
+    : null;
+
+  const { trace, allowedProviders } = filterOptions;
+  if (trace) {
+    trace.ratio_sp = ratio_sp;
+    trace.requirements = { tools: !!(tools && tools.length > 0), vision: !!hasImages, providers: providerList };
+  }
+
+  // Raisons d'incompatibilité d'un modèle avec la requête (vide si compatible)
+  const getExclusionReasons = (model: Model): string[] => {
+    const reasons: string[] = [];
+    const isEmbeddingModel = model.model_type === 'embedding';
+    if (filterOptions.requireEmbeddings && !isEmbeddingModel) {
+      reasons.push('not an embedding model');
+    }
+    if (!filterOptions.requireEmbeddings && isEmbeddingModel) {
+      reasons.push('embedding model');
+    }
+    if (tools && tools.length > 0 && !model.support_tool_calling) {
+      reasons.push('no tool calling');
+    }
+    if (hasImages && !model.support_vision) {
+      reasons.push('no vision');
+    }
+    const requestTokens = model.context_window ? getRequestTokens(model) : 0;
+    if (model.context_window && requestTokens > model.context_window) {
+      reasons.push(`context too small (${model.context_window} < ${requestTokens})`);
+    }
+    return reasons;
+  };
   
   // 2. Récupérer UNIQUEMENT les providers qui offrent ce model_id
   const allModels = await getAllModels();
@@ -508,7 +650,7 @@ async function filterProvidersNormal(
     console.log(`   Found in providers: ${providerMatches.map(m => m.provider).join(', ')}`);
   }
   
-  let availableModels = allModels.filter(model => {
+  const availableModels = allModels.filter(model => {
     // Correspondance exacte sur model_id OU provider_model_id
     const modelMatch = model.model_id === requestedModel || model.provider_model_id === requestedModel;
     
@@ -518,20 +660,17 @@ async function filterProvidersNormal(
     
     //console.log(`\n🔍 Checking provider: ${model.provider} (${model.model_id})`);
     
-    // Filtres de compatibilité
-    if (tools && tools.length > 0 && !model.support_tool_calling) {
-      //console.log(`   ❌ Rejected: No tool calling support`);
-      return false;
+    // Filtres de compatibilité (tool calling, vision, context window strict)
+    const reasons = getExclusionReasons(model);
+    if (providerList && !providerList.includes(model.provider)) {
+      reasons.push('not in requested providers');
     }
-
-    if (hasImages && !model.support_vision) {
-      //console.log(`   ❌ Rejected: No vision support`);
-      return false;
+    if (allowedProviders && !allowedProviders.includes(model.provider)) {
+      reasons.push('provider not allowed for API key');
     }
 
-    // Context window strict
-    if (model.context_window && totalTokens > model.context_window) {
-      //console.log(`   ❌ Rejected: Context window too small (${model.context_window} < ${totalTokens})`);
+    if (reasons.length > 0) {
+      trace?.excluded.push({ provider: model.provider, model_id: model.model_id, reasons });
       return false;
     }
     
@@ -545,18 +684,28 @@ async function filterProvidersNormal(
      */
     return true;
   });
+
+  if (trace) {
+    trace.estimated_tokens = Object.fromEntries(tokenCounts);
+  }
   
-  // 2.5. Filtrer par providers spécifiés dans la requête ou les options
-  const requestProviders = request.provider;
-  if (requestProviders && ( (Array.isArray(requestProviders) && requestProviders.length > 0) || typeof requestProviders === 'string' ) ) {
-    const providerList = Array.isArray(requestProviders) ? requestProviders : [requestProviders];
-    
-    // Filtrer uniquement les modèles des providers spécifiés
-    const beforeFilterCount = availableModels.length;
-    availableModels = availableModels.filter(model => 
-      providerList.includes(model.provider)
-    );
-    
+  // 2.4. Modèle servi uniquement par des providers exclus par la clé API
+  if (availableModels.length === 0 && allowedProviders) {
+    const blockedProviders = [...exactMatches, ...providerMatches]
+      .filter(model => getExclusionReasons(model).length === 0 && !allowedProviders.includes(model.provider))
+      .map(model => model.provider);
+
+    if (blockedProviders.length > 0) {
+      throw new ApiKeyLimitError(
+        `Providers [${[...new Set(blockedProviders)].join(', ')}] serving model "${requestedModel}" are not allowed for this API key. Allowed providers: [${allowedProviders.join(', ')}]`,
+        403,
+        'api_key_forbidden_error'
+      );
+    }
+  }
+
+  // 2.5. Les providers spécifiés dans la requête ont été filtrés ci-dessus
+  if (providerList) {
     if (availableModels.length === 0) {
       console.log(`\n❌ ERROR: None of the specified providers support the model "${requestedModel}"`);
       console.log(`   - Requested providers: ${providerList.join(', ')}`);
@@ -568,11 +717,7 @@ async function filterProvidersNormal(
           if (!modelMatch) return false;
           
           // Vérifier la compatibilité
-          if (tools && tools.length > 0 && !model.support_tool_calling) return false;
-          if (hasImages && !model.support_vision) return false;
-          if (model.context_window && totalTokens > model.context_window) return false;
-          
-          return true;
+          return getExclusionReasons(model).length === 0;
         })
         .map(m => m.provider);
       
@@ -608,16 +753,7 @@ async function filterProvidersNormal(
       
       const allMatchingModels = [...exactMatches, ...providerMatches];
       allMatchingModels.forEach(model => {
-        const reasons = [];
-        if (tools && tools.length > 0 && !model.support_tool_calling) {
-          reasons.push('no tool calling');
-        }
-        if (hasImages && !model.support_vision) {
-          reasons.push('no vision');
-        }
-        if (model.context_window && totalTokens > model.context_window) {
-          reasons.push(`context too small (${model.context_window})`);
-        }
+        const reasons = getExclusionReasons(model);
         
         if (reasons.length > 0) {
           console.log(`      - ${model.provider}: ${reasons.join(', ')}`);
@@ -724,7 +860,7 @@ async function filterProvidersNormal(
   });
 
   // 8. Convertir en ProviderCombination
-  return scoredModels.map((scored: ModelVectorScore) => ({
+  const combinations: ProviderCombination[] = scoredModels.map((scored: ModelVectorScore) => ({
     model: scored.model,
     provider: scored.model.provider,
     modelId: scored.model.model_id,
@@ -741,6 +877,92 @@ async function filterProvidersNormal(
     },
     extraParams: scored.model.extra_param || {}
   }));
+
+  // 9. En mode explain : détailler le classement sans réserver de requête de test (half_open)
+  if (trace) {
+    trace.ranked = scoredModels.map((scored, index) => ({
+      rank: index + 1,
+      provider: scored.model.provider,
+      model_id: scored.model.model_id,
+      provider_model_id: scored.model.provider_model_id,
+      estimated_tokens: getRequestTokens(scored.model),
+      score: scored.score,
+      normalized_price: scored.normalizedPrice,
+      normalized_throughput: scored.normalizedThroughput,
+      normalized_latency: scored.normalizedLatency,
+      caching_boost: scored.cachingBoost,
+      has_sufficient_metrics: scored.hasSufficientMetrics,
+      metrics: allMetrics.get(`${scored.model.provider}:${scored.model.model_id}`) || {
+        throughput_median: null,
+        latency_median: null,
+        sample_count: 0
+      },
+      price_per_input_token: scored.model.price_per_input_token,
+      price_per_output_token: scored.model.price_per_output_token,
+      circuit_state: providerHealth.getState(scored.model.provider, scored.model.model_id)
+    }));
+    return combinations;
+  }
+
+  // 10. Écarter les combinaisons dont le circuit est ouvert
+  return providerHealth.applyCircuitBreaker(combinations);
+}
+
+/**
+ * Explique le routage d'une requête sans appeler de LLM (/v1/routing/explain)
+ * Pour une famille, le score vient de scoreOverride ou du cache d'évaluation
+ * @param request - Requête standardisée
+ * @param userId - ID de l'utilisateur (historique de caching, familles privées)
+ * @param scoreOverride - Score de complexité à simuler pour une famille
+ */
+export async function explainRouting(
+  request: StandardRequest,
+  userId: string,
+  userPreferences: UserPreferences = {},
+  filterOptions: FilterOptions = {},
+  scoreOverride?: number
+): Promise<RoutingExplanation> {
+  const modelId = typeof request.model === 'string' ? request.model : request.model?.model_id;
+
+  if (!modelId) {
+    throw new Error('model_id is required and must be specified');
+  }
+
+  assertModelAllowed(filterOptions.allowedModels, modelId);
+
+  const family = await familyRoutingService.explainRoute(modelId, request, userId, scoreOverride);
+  const targets: RoutingTarget[] = family ? family.targets : [{ model: modelId, providers: null }];
+
+  const traces: ModelRoutingTrace[] = [];
+  for (const target of targets) {
+    const trace: ModelRoutingTrace = {
+      model: target.model,
+      ratio_sp: target.ratioSp ?? filterOptions.ratio_sp ?? 50,
+      estimated_tokens: {},
+      requirements: { tools: false, vision: false, providers: null },
+      ranked: [],
+      excluded: []
+    };
+
+    try {
+      await filterProvidersNormal(
+        { ...request, model: target.model, provider: target.providers ?? request.provider },
+        userId,
+        userPreferences,
+        { ...filterOptions, ratio_sp: target.ratioSp ?? filterOptions.ratio_sp, trace }
+      );
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    traces.push(trace);
+  }
+
+  return {
+    model: modelId,
+    family,
+    targets: traces
+  };
 }
 
 /**
@@ -807,6 +1029,22 @@ export function estimateRequestCost(
   return parseFloat((inputCost + outputCost).toFixed(6));
 }
 
+/**
+ * Retourne le multiplicateur de prix appliqué aux requêtes batch pour un modèle
+ * Priorité : colonne batch_discount_multiplier du modèle, puis BATCH_DISCOUNT_MULTIPLIER (défaut 0.5)
+ * @param model - Modèle (ou sous-ensemble contenant batch_discount_multiplier)
+ * @returns Multiplicateur entre 0 et 1
+ */
+export function getBatchDiscountMultiplier(model: Pick<Model, 'batch_discount_multiplier'> | null | undefined): number {
+  const modelMultiplier = model?.batch_discount_multiplier;
+  if (typeof modelMultiplier === 'number' && modelMultiplier >= 0 && modelMultiplier <= 1) {
+    return modelMultiplier;
+  }
+
+  const envMultiplier = parseFloat(process.env.BATCH_DISCOUNT_MULTIPLIER || '0.5');
+  return !isNaN(envMultiplier) && envMultiplier >= 0 && envMultiplier <= 1 ? envMultiplier : 0.5;
+}
+
 /**
  * Récupère les statistiques des modèles
  * @returns Statistiques des modèles
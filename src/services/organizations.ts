@@ -0,0 +1,322 @@
+import { supabase } from '../config/database.js';
+import { cacheUtils } from '../config/cache.js';
+import type { Organization, OrganizationRole, OrganizationMemberRow } from '../types/index.js';
+
+/**
+ * Accès refusé à une organisation (non membre ou rôle insuffisant)
+ */
+export class OrganizationAccessError extends Error {
+  public readonly status = 403;
+  public readonly code = 'organization_access_error';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizationAccessError';
+  }
+}
+
+// Rôles autorisés à gérer les membres
+export const ORGANIZATION_MANAGER_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+/**
+ * Détail d'une organisation avec ses membres et son solde
+ */
+export interface OrganizationDetail {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  balance: number;
+  members: Omit<OrganizationMemberRow, 'organization_id'>[];
+}
+
+/**
+ * Dépense consolidée d'une organisation, ventilée par membre et par clé API
+ */
+export interface OrganizationUsage {
+  organization_id: string;
+  since: string;
+  total: number;
+  requests: number;
+  by_member: Array<{ user_id: string; amount: number; requests: number }>;
+  by_api_key: Array<{ api_key_id: string | null; api_key_name: string | null; amount: number; requests: number }>;
+}
+
+/**
+ * Appartenance d'un utilisateur à une organisation (mise en cache)
+ * @returns L'organisation et le rôle du membre, ou null s'il n'en fait pas partie
+ */
+export async function getMembership(userId: string, organizationId: string): Promise<Organization | null> {
+  const cached = cacheUtils.getOrganizationMembership(organizationId, userId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations!inner(id, name)')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch organization membership: ${error.message}`);
+  }
+
+  const organization = data as unknown as { role: OrganizationRole; organizations: { id: string; name: string } } | null;
+  const membership: Organization | null = organization
+    ? { id: organization.organizations.id, name: organization.organizations.name, role: organization.role }
+    : null;
+
+  cacheUtils.setOrganizationMembership(organizationId, userId, membership);
+  return membership;
+}
+
+/**
+ * Vérifie l'appartenance (et éventuellement le rôle) d'un utilisateur
+ * @throws OrganizationAccessError
+ */
+export async function requireMembership(
+  userId: string,
+  organizationId: string,
+  roles?: OrganizationRole[]
+): Promise<Organization> {
+  const membership = await getMembership(userId, organizationId);
+
+  if (!membership) {
+    throw new OrganizationAccessError(`Not a member of organization ${organizationId}`);
+  }
+
+  if (roles && !roles.includes(membership.role)) {
+    throw new OrganizationAccessError(`Organization role ${roles.join(' or ')} required (current role: ${membership.role})`);
+  }
+
+  return membership;
+}
+
+/**
+ * Organisations dont l'utilisateur est membre
+ */
+export async function listUserOrganizations(userId: string): Promise<Organization[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations!inner(id, name)')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to list organizations: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as Array<{ role: OrganizationRole; organizations: { id: string; name: string } }>)
+    .map(row => ({ id: row.organizations.id, name: row.organizations.name, role: row.role }));
+}
+
+/**
+ * Crée une organisation, son wallet (solde 0) et en fait de l'utilisateur le propriétaire
+ */
+export async function createOrganization(name: string, userId: string): Promise<Organization> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .insert({ name, created_by: userId })
+    .select('id, name')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create organization: ${error?.message || 'Unknown error'}`);
+  }
+
+  const { error: memberError } = await supabase
+    .from('organization_members')
+    .insert({ organization_id: data.id, user_id: userId, role: 'owner' });
+
+  if (memberError) {
+    throw new Error(`Failed to add organization owner: ${memberError.message}`);
+  }
+
+  const { error: walletError } = await supabase
+    .from('wallet')
+    .insert({ organization_id: data.id, user_id: null, balance: 0 });
+
+  if (walletError) {
+    throw new Error(`Failed to create organization wallet: ${walletError.message}`);
+  }
+
+  cacheUtils.invalidateOrganizationMembership(data.id, userId);
+  return { id: data.id, name: data.name, role: 'owner' };
+}
+
+/**
+ * Détail d'une organisation (membres et solde du wallet)
+ */
+export async function getOrganization(organizationId: string): Promise<OrganizationDetail | null> {
+  const [{ data: organization, error }, { data: members, error: membersError }, { data: wallet }] = await Promise.all([
+    supabase.from('organizations').select('*').eq('id', organizationId).maybeSingle(),
+    supabase.from('organization_members').select('user_id, role, created_at').eq('organization_id', organizationId).order('created_at'),
+    supabase.from('wallet').select('balance').eq('organization_id', organizationId).maybeSingle()
+  ]);
+
+  if (error || membersError) {
+    throw new Error(`Failed to fetch organization: ${(error || membersError)!.message}`);
+  }
+
+  if (!organization) {
+    return null;
+  }
+
+  return {
+    id: organization.id,
+    name: organization.name,
+    created_by: organization.created_by,
+    created_at: organization.created_at,
+    balance: wallet ? parseFloat(wallet.balance.toString()) : 0,
+    members: members || []
+  };
+}
+
+/**
+ * Nombre de propriétaires d'une organisation
+ */
+async function countOwners(organizationId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('organization_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner');
+
+  if (error) {
+    throw new Error(`Failed to count organization owners: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Ajoute un membre à une organisation
+ */
+export async function addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMemberRow> {
+  if (await getMembership(userId, organizationId)) {
+    throw new Error(`Member already exists: ${userId}`);
+  }
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .insert({ organization_id: organizationId, user_id: userId, role })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to add organization member: ${error?.message || 'Unknown error'}`);
+  }
+
+  cacheUtils.invalidateOrganizationMembership(organizationId, userId);
+  return data;
+}
+
+/**
+ * Change le rôle d'un membre (l'organisation garde au moins un propriétaire)
+ * @returns Le membre mis à jour, ou null s'il n'existe pas
+ */
+export async function updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMemberRow | null> {
+  const membership = await getMembership(userId, organizationId);
+  if (!membership) {
+    return null;
+  }
+
+  if (membership.role === 'owner' && role !== 'owner' && await countOwners(organizationId) <= 1) {
+    throw new Error('Organization must keep at least one owner');
+  }
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .update({ role })
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update organization member: ${error?.message || 'Unknown error'}`);
+  }
+
+  cacheUtils.invalidateOrganizationMembership(organizationId, userId);
+  return data;
+}
+
+/**
+ * Retire un membre (l'organisation garde au moins un propriétaire)
+ * @returns false si l'utilisateur n'était pas membre
+ */
+export async function removeMember(organizationId: string, userId: string): Promise<boolean> {
+  const membership = await getMembership(userId, organizationId);
+  if (!membership) {
+    return false;
+  }
+
+  if (membership.role === 'owner' && await countOwners(organizationId) <= 1) {
+    throw new Error('Organization must keep at least one owner');
+  }
+
+  const { error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to remove organization member: ${error.message}`);
+  }
+
+  cacheUtils.invalidateOrganizationMembership(organizationId, userId);
+  return true;
+}
+
+/**
+ * Dépense consolidée d'une organisation depuis une date
+ */
+export async function getOrganizationUsage(organizationId: string, since: string): Promise<OrganizationUsage> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('amount, user_id, requests!inner(api_key_id, api_key_name, api_keys(api_key_name))')
+    .eq('organization_id', organizationId)
+    .eq('type', 'debit')
+    .gte('created_at', since);
+
+  if (error) {
+    throw new Error(`Failed to fetch organization usage: ${error.message}`);
+  }
+
+  const byMember = new Map<string, { user_id: string; amount: number; requests: number }>();
+  const byApiKey = new Map<string | null, { api_key_id: string | null; api_key_name: string | null; amount: number; requests: number }>();
+  let total = 0;
+
+  for (const transaction of (data || []) as unknown as Array<{
+    amount: number;
+    user_id: string;
+    requests: { api_key_id: string | null; api_key_name: string | null; api_keys: { api_key_name: string } | null };
+  }>) {
+    const amount = parseFloat(transaction.amount.toString());
+    // Regroupement sur l'identifiant stable de la clé ; le nom (actuel, sinon celui de la requête) n'est qu'un libellé
+    const apiKeyId = transaction.requests?.api_key_id ?? null;
+    const apiKeyName = transaction.requests?.api_keys?.api_key_name ?? transaction.requests?.api_key_name ?? null;
+    total += amount;
+
+    const member = byMember.get(transaction.user_id) || { user_id: transaction.user_id, amount: 0, requests: 0 };
+    member.amount += amount;
+    member.requests++;
+    byMember.set(transaction.user_id, member);
+
+    const apiKey = byApiKey.get(apiKeyId) || { api_key_id: apiKeyId, api_key_name: apiKeyId ? apiKeyName : null, amount: 0, requests: 0 };
+    apiKey.amount += amount;
+    apiKey.requests++;
+    byApiKey.set(apiKeyId, apiKey);
+  }
+
+  return {
+    organization_id: organizationId,
+    since,
+    total,
+    requests: data?.length || 0,
+    by_member: [...byMember.values()].sort((a, b) => b.amount - a.amount),
+    by_api_key: [...byApiKey.values()].sort((a, b) => b.amount - a.amount)
+  };
+}
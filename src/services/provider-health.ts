@@ -0,0 +1,347 @@
+import type { ProviderCombination } from '../types/index.js';
+
+/**
+ * État d'un circuit provider/modèle
+ * - closed : trafic normal
+ * - open : combinaison ignorée par filterProviders jusqu'à la fin du cooldown
+ * - half_open : une requête de test est autorisée pour décider de refermer ou rouvrir
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Résultat d'un appel enregistré dans la fenêtre glissante
+ */
+interface CallOutcome {
+  success: boolean;
+  rateLimited: boolean;
+  timestamp: number;
+}
+
+/**
+ * Santé d'une combinaison provider/modèle
+ */
+interface ProviderHealthEntry {
+  provider: string;
+  modelId: string;
+  state: CircuitState;
+  outcomes: CallOutcome[];
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probeStartedAt: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+/**
+ * Vue exposée sur /health/providers
+ */
+export interface ProviderHealthSnapshot {
+  provider: string;
+  model_id: string;
+  state: CircuitState;
+  error_rate: number;
+  calls: number;
+  consecutive_failures: number;
+  rate_limited: number;
+  opened_at: string | null;
+  retry_at: string | null;
+  last_error: string | null;
+  last_failure_at: string | null;
+  last_success_at: string | null;
+}
+
+/**
+ * Configuration du circuit breaker (variables d'environnement)
+ */
+interface CircuitBreakerConfig {
+  windowSize: number;
+  minCalls: number;
+  errorRateThreshold: number;
+  consecutiveFailureThreshold: number;
+  rateLimitThreshold: number;
+  cooldownMs: number;
+  probeTimeoutMs: number;
+}
+
+function readNumberEnv(name: string, defaultValue: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return !isNaN(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Registre de santé des providers alimenté par les résultats de executeWithFallback
+ * et executeStreamingWithFallback. L'état est propre à chaque processus.
+ */
+export class ProviderHealthRegistry {
+  private entries = new Map<string, ProviderHealthEntry>();
+  private config: CircuitBreakerConfig;
+
+  constructor() {
+    this.config = {
+      windowSize: readNumberEnv('CIRCUIT_WINDOW_SIZE', 50),
+      minCalls: readNumberEnv('CIRCUIT_MIN_CALLS', 10),
+      errorRateThreshold: readNumberEnv('CIRCUIT_ERROR_RATE_THRESHOLD', 0.5),
+      consecutiveFailureThreshold: readNumberEnv('CIRCUIT_CONSECUTIVE_FAILURES', 5),
+      rateLimitThreshold: readNumberEnv('CIRCUIT_RATE_LIMIT_THRESHOLD', 3),
+      cooldownMs: readNumberEnv('CIRCUIT_COOLDOWN_MS', 30000),
+      probeTimeoutMs: readNumberEnv('CIRCUIT_PROBE_TIMEOUT_MS', 60000)
+    };
+  }
+
+  private key(provider: string, modelId: string): string {
+    return `${provider}:${modelId}`;
+  }
+
+  private getEntry(provider: string, modelId: string): ProviderHealthEntry {
+    const key = this.key(provider, modelId);
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = {
+        provider,
+        modelId,
+        state: 'closed',
+        outcomes: [],
+        consecutiveFailures: 0,
+        openedAt: null,
+        probeStartedAt: null,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null
+      };
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Passe un circuit ouvert en half-open une fois le cooldown écoulé
+   */
+  private refreshState(entry: ProviderHealthEntry, now: number = Date.now()): void {
+    if (entry.state === 'open' && entry.openedAt !== null && now - entry.openedAt >= this.config.cooldownMs) {
+      entry.state = 'half_open';
+      entry.probeStartedAt = null;
+      console.log(`🟡 Circuit half-open for ${entry.provider}:${entry.modelId}`);
+    }
+
+    // Une requête de test qui n'a jamais rapporté de résultat libère sa place
+    if (entry.state === 'half_open' && entry.probeStartedAt !== null && now - entry.probeStartedAt >= this.config.probeTimeoutMs) {
+      entry.probeStartedAt = null;
+    }
+  }
+
+  private open(entry: ProviderHealthEntry, reason: string): void {
+    entry.state = 'open';
+    entry.openedAt = Date.now();
+    entry.probeStartedAt = null;
+    console.warn(`🔴 Circuit opened for ${entry.provider}:${entry.modelId} (${reason})`);
+  }
+
+  private pushOutcome(entry: ProviderHealthEntry, outcome: CallOutcome): void {
+    entry.outcomes.push(outcome);
+    if (entry.outcomes.length > this.config.windowSize) {
+      entry.outcomes.splice(0, entry.outcomes.length - this.config.windowSize);
+    }
+  }
+
+  /**
+   * Enregistre un appel réussi
+   */
+  recordSuccess(combination: Pick<ProviderCombination, 'provider' | 'modelId'>): void {
+    const entry = this.getEntry(combination.provider, combination.modelId);
+    const now = Date.now();
+
+    this.pushOutcome(entry, { success: true, rateLimited: false, timestamp: now });
+    entry.consecutiveFailures = 0;
+    entry.lastSuccessAt = now;
+
+    if (entry.state !== 'closed') {
+      console.log(`🟢 Circuit closed for ${entry.provider}:${entry.modelId}`);
+      entry.state = 'closed';
+      entry.openedAt = null;
+      entry.probeStartedAt = null;
+      // On repart d'une fenêtre propre pour ne pas rouvrir sur d'anciens échecs
+      entry.outcomes = [{ success: true, rateLimited: false, timestamp: now }];
+    }
+  }
+
+  /**
+   * Enregistre un échec technique (les erreurs 400 renvoyées au client ne doivent pas être passées ici)
+   */
+  recordFailure(combination: Pick<ProviderCombination, 'provider' | 'modelId'>, error: unknown): void {
+    const entry = this.getEntry(combination.provider, combination.modelId);
+    const now = Date.now();
+    const status = error && typeof error === 'object' && 'status' in error ? (error as { status: unknown }).status : undefined;
+    const rateLimited = status === 429;
+
+    this.refreshState(entry, now);
+    this.pushOutcome(entry, { success: false, rateLimited, timestamp: now });
+    entry.consecutiveFailures++;
+    entry.lastFailureAt = now;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+
+    // Échec de la requête de test : réouverture immédiate
+    if (entry.state === 'half_open') {
+      this.open(entry, 'half-open probe failed');
+      return;
+    }
+
+    if (entry.state === 'open') {
+      return;
+    }
+
+    const { calls, errorRate, rateLimitedCount } = this.windowStats(entry);
+
+    if (entry.consecutiveFailures >= this.config.consecutiveFailureThreshold) {
+      this.open(entry, `${entry.consecutiveFailures} consecutive failures`);
+    } else if (rateLimitedCount >= this.config.rateLimitThreshold && rateLimited) {
+      this.open(entry, `${rateLimitedCount} rate limit errors`);
+    } else if (calls >= this.config.minCalls && errorRate >= this.config.errorRateThreshold) {
+      this.open(entry, `error rate ${(errorRate * 100).toFixed(0)}% over ${calls} calls`);
+    }
+  }
+
+  private windowStats(entry: ProviderHealthEntry): { calls: number; errorRate: number; rateLimitedCount: number } {
+    const calls = entry.outcomes.length;
+    const failures = entry.outcomes.filter(outcome => !outcome.success).length;
+    const rateLimitedCount = entry.outcomes.filter(outcome => outcome.rateLimited).length;
+
+    return {
+      calls,
+      errorRate: calls > 0 ? failures / calls : 0,
+      rateLimitedCount
+    };
+  }
+
+  /**
+   * Retourne l'état courant d'une combinaison
+   */
+  getState(provider: string, modelId: string): CircuitState {
+    const entry = this.entries.get(this.key(provider, modelId));
+    if (!entry) {
+      return 'closed';
+    }
+
+    this.refreshState(entry);
+    return entry.state;
+  }
+
+  /**
+   * Réordonne les combinaisons selon l'état des circuits, en conservant l'ordre du score :
+   * - closed : gardées en tête
+   * - half_open : gardées à leur rang tant qu'aucune requête de test n'est en cours, sinon en fin de liste
+   * - open : ignorées, sauf si aucune autre combinaison n'est disponible (dernier recours)
+   * Lecture seule : la requête de test n'est réservée (claimProbe) qu'au moment d'appeler le provider
+   */
+  applyCircuitBreaker<T extends Pick<ProviderCombination, 'provider' | 'modelId'>>(combinations: T[]): T[] {
+    const available: T[] = [];
+    const demoted: T[] = [];
+    const skipped: T[] = [];
+    const now = Date.now();
+
+    for (const combination of combinations) {
+      const entry = this.entries.get(this.key(combination.provider, combination.modelId));
+
+      if (!entry) {
+        available.push(combination);
+        continue;
+      }
+
+      this.refreshState(entry, now);
+
+      if (entry.state === 'closed') {
+        available.push(combination);
+      } else if (entry.state === 'half_open') {
+        if (entry.probeStartedAt === null) {
+          available.push(combination);
+        } else {
+          demoted.push(combination);
+        }
+      } else {
+        skipped.push(combination);
+      }
+    }
+
+    if (skipped.length > 0) {
+      console.log(`⚡ Circuit breaker skipping: ${skipped.map(c => `${c.provider}:${c.modelId}`).join(', ')}`);
+    }
+
+    const result = [...available, ...demoted];
+    return result.length > 0 ? result : skipped;
+  }
+
+  /**
+   * Réserve la requête de test d'un circuit half-open, juste avant l'appel au provider
+   * (sans effet si le circuit est fermé ou si une requête de test est déjà en cours)
+   * @returns true si cet appel est la requête de test (à solder par recordSuccess, recordFailure ou releaseProbe)
+   */
+  claimProbe(combination: Pick<ProviderCombination, 'provider' | 'modelId'>): boolean {
+    const entry = this.entries.get(this.key(combination.provider, combination.modelId));
+    if (!entry) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.refreshState(entry, now);
+
+    if (entry.state === 'half_open' && entry.probeStartedAt === null) {
+      entry.probeStartedAt = now;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Libère la requête de test sans verdict (erreur client 4xx, client déconnecté) :
+   * le circuit reste half-open et la requête suivante peut servir de test
+   */
+  releaseProbe(combination: Pick<ProviderCombination, 'provider' | 'modelId'>): void {
+    const entry = this.entries.get(this.key(combination.provider, combination.modelId));
+    if (entry?.state === 'half_open') {
+      entry.probeStartedAt = null;
+    }
+  }
+
+  /**
+   * Photographie de l'état de tous les circuits connus
+   */
+  getSnapshot(): ProviderHealthSnapshot[] {
+    const toIso = (timestamp: number | null): string | null =>
+      timestamp !== null ? new Date(timestamp).toISOString() : null;
+
+    return Array.from(this.entries.values()).map(entry => {
+      this.refreshState(entry);
+      const { calls, errorRate, rateLimitedCount } = this.windowStats(entry);
+
+      return {
+        provider: entry.provider,
+        model_id: entry.modelId,
+        state: entry.state,
+        error_rate: parseFloat(errorRate.toFixed(3)),
+        calls,
+        consecutive_failures: entry.consecutiveFailures,
+        rate_limited: rateLimitedCount,
+        opened_at: entry.state !== 'closed' ? toIso(entry.openedAt) : null,
+        retry_at: entry.state === 'open' && entry.openedAt !== null
+          ? toIso(entry.openedAt + this.config.cooldownMs)
+          : null,
+        last_error: entry.lastError,
+        last_failure_at: toIso(entry.lastFailureAt),
+        last_success_at: toIso(entry.lastSuccessAt)
+      };
+    }).sort((a, b) => a.provider.localeCompare(b.provider) || a.model_id.localeCompare(b.model_id));
+  }
+
+  /**
+   * Réinitialise tous les circuits
+   */
+  reset(): void {
+    this.entries.clear();
+  }
+}
+
+// Instance singleton
+export const providerHealth = new ProviderHealthRegistry();
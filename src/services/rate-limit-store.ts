@@ -0,0 +1,126 @@
+/**
+ * Seau à consommer : capacité pleine en une minute, rechargé en continu
+ */
+export interface TokenBucketRequest {
+  key: string;
+  capacity: number;  // Limite par minute
+  cost: number;      // Requêtes (1) ou tokens estimés consommés
+}
+
+/**
+ * État d'un seau après la tentative de consommation
+ */
+export interface TokenBucketResult {
+  key: string;
+  limit: number;
+  remaining: number;
+  resetMs: number;       // Temps avant que le seau soit de nouveau plein
+  retryAfterMs: number;  // Temps avant que `cost` soit disponible (0 si consommé)
+}
+
+/**
+ * Stockage des seaux de rate limiting
+ * L'implémentation mémoire est propre à chaque processus : une implémentation partagée (Redis)
+ * doit consommer tous les seaux de façon atomique (script Lua) pour les déploiements multi-instances
+ */
+export interface RateLimitStore {
+  /**
+   * Consomme tous les seaux, ou aucun si l'un d'eux n'a pas assez de jetons
+   */
+  consume(buckets: TokenBucketRequest[]): Promise<{ allowed: boolean; results: TokenBucketResult[] }>;
+}
+
+interface BucketState {
+  tokens: number;
+  capacity: number;
+  updatedAt: number;
+}
+
+const WINDOW_MS = 60000;
+
+/**
+ * Token bucket en mémoire (Map + nettoyage périodique des seaux pleins)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  constructor(cleanupIntervalMs: number = WINDOW_MS) {
+    // Un seau plein équivaut à un seau absent : on le supprime
+    setInterval(() => this.cleanup(), cleanupIntervalMs).unref();
+  }
+
+  async consume(requests: TokenBucketRequest[]): Promise<{ allowed: boolean; results: TokenBucketResult[] }> {
+    const now = Date.now();
+    const states = requests.map(request => this.refill(request, now));
+
+    // Une requête plus coûteuse que la capacité attend un seau plein
+    const costs = requests.map(request => Math.min(request.cost, request.capacity));
+    const allowed = states.every((state, index) => state.tokens >= costs[index]);
+
+    const results = requests.map((request, index) => {
+      const state = states[index];
+      const rate = request.capacity / WINDOW_MS;
+
+      if (allowed) {
+        state.tokens -= costs[index];
+      }
+
+      return {
+        key: request.key,
+        limit: request.capacity,
+        remaining: Math.max(0, Math.floor(state.tokens)),
+        resetMs: Math.ceil((request.capacity - state.tokens) / rate),
+        retryAfterMs: allowed ? 0 : Math.max(0, Math.ceil((costs[index] - state.tokens) / rate))
+      };
+    });
+
+    return { allowed, results };
+  }
+
+  /**
+   * Recharge un seau selon le temps écoulé (création à pleine capacité)
+   */
+  private refill(request: TokenBucketRequest, now: number): BucketState {
+    let state = this.buckets.get(request.key);
+
+    if (!state) {
+      state = { tokens: request.capacity, capacity: request.capacity, updatedAt: now };
+      this.buckets.set(request.key, state);
+      return state;
+    }
+
+    // Limite modifiée (changement de palier ou de clé) : les jetons sont plafonnés à la nouvelle capacité
+    state.capacity = request.capacity;
+    state.tokens = Math.min(request.capacity, state.tokens + (now - state.updatedAt) * request.capacity / WINDOW_MS);
+    state.updatedAt = now;
+    return state;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, state] of this.buckets) {
+      if (state.tokens + (now - state.updatedAt) * state.capacity / WINDOW_MS >= state.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Store utilisé par le middleware de rate limiting (mémoire par défaut)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = new MemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Remplace le store (ex: implémentation Redis au démarrage d'un déploiement multi-instances)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
@@ -1,21 +1,38 @@
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../config/database.js';
 import { createAdapter } from '../adapters/index.js';
-import { filterProviders, estimateRequestCost } from './models.js';
+import { filterProviders, estimateRequestCost, getBatchDiscountMultiplier } from './models.js';
 import { updateApiKeyUsage } from '../middleware/auth.js';
 import { cacheUtils } from '../config/cache.js';
 import { triggerWebhookAsync } from './webhook-trigger.js';
+import { providerHealth } from './provider-health.js';
+import { walletHoldService, InsufficientFundsError, WalletHoldUnavailableError } from './wallet-holds.js';
+import { ApiKeyLimitError, getApiKeyRestrictions } from './api-key-limits.js';
+import { calculateTokens } from './request-processor.js';
 import axios from 'axios';
 import type { 
   StandardRequest, 
   ChatCompletion, 
   ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   AuthData,
   ProviderCombination,
+  RequestStatus,
   Usage
 } from '../types/index.js';
 import { BaseAdapter, AdapterError } from '../adapters/base.js';
 
+// Adapters qui prolongent un message assistant final (prefill) au lieu d'y répondre
+const PREFILL_ADAPTERS = ['anthropic', 'vertex-anthropic', 'bedrock'];
+
+// Consigne ajoutée pour les autres adapters lors d'un failover mid-stream
+const CONTINUATION_PROMPT = 'Your previous answer was interrupted. Continue it exactly where it stopped, without repeating anything already written and without any preamble.';
+
+// Messages enregistrés pour les requêtes annulées
+const CLIENT_CANCELLED_MESSAGE = 'Request cancelled by client';
+const HEDGE_CANCELLED_MESSAGE = 'Hedged request cancelled: another provider answered first';
+
 /**
  * Interface pour les métriques de streaming
  */
@@ -27,6 +44,50 @@ interface StreamingMetrics {
   responseChunks: ChatCompletionChunk[];
 }
 
+/**
+ * Tentative streaming démarrée (premier chunk déjà reçu), utilisée par le hedging
+ */
+interface StreamingAttempt {
+  index: number;
+  combination: ProviderCombination;
+  adapter: BaseAdapter;
+  generator: AsyncGenerator<ChatCompletionChunk>;
+  firstChunk: ChatCompletionChunk | null;
+  firstChunkAt: number | null;
+  requestId: string;
+  startTime: number;
+}
+
+/**
+ * Résultat d'une course entre deux providers
+ */
+interface HedgeOutcome {
+  winner: StreamingAttempt | null;
+  attempted: number[];
+  error: unknown;
+}
+
+/**
+ * Erreur terminale d'un stream, remontée aux routes pour émettre un événement SSE `error`
+ */
+export class StreamError extends Error {
+  public readonly status: number;
+  public readonly code: string;
+  public readonly provider?: string;
+  public readonly requestId: string;
+  public readonly originalError?: unknown;
+
+  constructor(message: string, status: number, code: string, requestId: string, provider?: string, originalError?: unknown) {
+    super(message);
+    this.name = 'StreamError';
+    this.status = status;
+    this.code = code;
+    this.requestId = requestId;
+    this.provider = provider;
+    this.originalError = originalError;
+  }
+}
+
 /**
  * Interface pour les statistiques de traitement
  */
@@ -58,6 +119,7 @@ export class RequestHandler {
   ): Promise<ChatCompletion | AsyncGenerator<ChatCompletionChunk>> {
     const requestId = uuidv4();
     const startTime = Date.now();
+    let holdPlaced = false;
     
     try {
       // Validation de base de la requête
@@ -69,7 +131,8 @@ export class RequestHandler {
         authData.user.id, 
         authData.userPreferences,
         { 
-          ratio_sp: options.ratio_sp
+          ratio_sp: options.ratio_sp,
+          ...getApiKeyRestrictions(authData)
           // Le filtrage par provider se fait maintenant via request.provider directement dans filterProviders
         }
       );
@@ -78,7 +141,23 @@ export class RequestHandler {
         throw new Error(`No provider available for model_id: ${request.model || 'unknown'}`);
       }
 
-      // 2. Exécuter avec fallback
+      // Décision de routage, complétée par le provider qui répond
+      request._routingMetadata = {
+        request_id: requestId,
+        provider: null,
+        model: null,
+        attempts: 0,
+        family: request._routingInfo?.originalFamily ?? null,
+        family_score: request._routingInfo?.complexityScore ?? null,
+        estimated_cost: null
+      };
+
+      // 2. Réserver le coût maximal estimé sur le wallet (402 si solde disponible insuffisant)
+      const holdAmount = walletHoldService.estimateMaxCost(request, providerCombinations);
+      await walletHoldService.placeHold(authData.user.id, requestId, holdAmount, authData.organization?.id);
+      holdPlaced = true;
+
+      // 3. Exécuter avec fallback
       const result = await this.executeWithFallback(
         request,
         providerCombinations,
@@ -87,20 +166,282 @@ export class RequestHandler {
         startTime
       );
 
+      if (request.stream) {
+        return this.withWalletHold(result as AsyncGenerator<ChatCompletionChunk>, request, requestId);
+      }
+
+      await this.finalizeWalletHold(request, requestId);
       return result;
 
     } catch (error) {
-      // Si c'est une erreur de modèle non trouvé, on la renvoie directement sans logging
+      // Réservation libérée : la requête ne sera pas facturée par le request-processor
+      if (holdPlaced) {
+        await walletHoldService.releaseHold(requestId);
+      }
+
+      // Modèle non trouvé, solde insuffisant ou restriction de la clé API : renvoyée directement sans logging
       if (error instanceof Error && error.message.includes('No provider available for model_id')) {
         throw error;
       }
+
+      if (error instanceof InsufficientFundsError || error instanceof WalletHoldUnavailableError || error instanceof ApiKeyLimitError) {
+        throw error;
+      }
+
+      // Requête annulée par le client : déjà loggée comme 'cancelled'
+      if (request._abortSignal?.aborted) {
+        throw error;
+      }
       
       // Log l'erreur finale si aucun provider n'a fonctionné
-      await this.logFailedRequest(requestId, authData.user.id, request, error, startTime);
+      await this.logFailedRequest(requestId, authData, request, error, startTime);
+      throw error;
+    }
+  }
+
+  /**
+   * Point d'entrée pour les requêtes d'embeddings
+   * Même routage (filterProviders) et même fallback que le chat
+   * @param request - Requête d'embeddings
+   * @param authData - Données d'authentification
+   * @returns Réponse au format OpenAI
+   */
+  async handleEmbeddings(
+    request: EmbeddingRequest,
+    authData: AuthData,
+    options: { ratio_sp?: number } = {}
+  ): Promise<EmbeddingResponse> {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+    let holdPlaced = false;
+
+    try {
+      const inputs = Array.isArray(request.input) ? request.input : [request.input];
+      if (inputs.length === 0 || inputs.some(input => typeof input !== 'string' || input.length === 0)) {
+        throw new Error('Input must be a non-empty string or array of non-empty strings');
+      }
+
+      // 1. Projeter la requête en StandardRequest pour réutiliser le scoring des providers.
+      // La fenêtre de contexte s'applique par texte : on ne passe que le plus long,
+      // et max_tokens = 1 car un embedding ne génère pas de tokens.
+      const longestInput = inputs.reduce((longest, input) => input.length > longest.length ? input : longest, '');
+      const routingRequest: StandardRequest = {
+        model: request.model,
+        messages: [{ role: 'user', content: longestInput }],
+        max_tokens: 1,
+        provider: request.provider
+      };
+
+      const providerCombinations = await filterProviders(
+        routingRequest,
+        authData.user.id,
+        authData.userPreferences,
+        { ratio_sp: options.ratio_sp, requireEmbeddings: true, ...getApiKeyRestrictions(authData) }
+      );
+
+      if (providerCombinations.length === 0) {
+        throw new Error(`No provider available for model_id: ${request.model || 'unknown'}`);
+      }
+
+      // 2. Réserver le coût maximal estimé sur le wallet, sur l'ensemble des textes en entrée
+      const holdAmount = walletHoldService.estimateMaxCost(
+        { ...routingRequest, messages: inputs.map(input => ({ role: 'user', content: input })) },
+        providerCombinations
+      );
+      await walletHoldService.placeHold(authData.user.id, requestId, holdAmount, authData.organization?.id);
+      holdPlaced = true;
+
+      // 3. Exécuter avec fallback (la réservation est soldée par le request-processor)
+      return await this.executeEmbeddingsWithFallback(
+        request,
+        providerCombinations,
+        requestId,
+        authData,
+        startTime
+      );
+
+    } catch (error) {
+      if (holdPlaced) {
+        await walletHoldService.releaseHold(requestId);
+      }
+
+      if (error instanceof Error && error.message.includes('No provider available for model_id')) {
+        throw error;
+      }
+
+      if (error instanceof InsufficientFundsError || error instanceof WalletHoldUnavailableError || error instanceof ApiKeyLimitError) {
+        throw error;
+      }
+
+      await this.logFailedRequest(requestId, authData, request, error, startTime);
       throw error;
     }
   }
 
+  /**
+   * Exécute une requête d'embeddings avec fallback sur plusieurs providers
+   */
+  async executeEmbeddingsWithFallback(
+    request: EmbeddingRequest,
+    providerCombinations: ProviderCombination[],
+    requestId: string,
+    authData: AuthData,
+    startTime: number
+  ): Promise<EmbeddingResponse> {
+    let lastError: unknown = null;
+
+    for (let i = 0; i < providerCombinations.length; i++) {
+      const combination = providerCombinations[i];
+      let adapter: BaseAdapter | undefined;
+      let response: EmbeddingResponse;
+
+      try {
+        console.log(`Trying provider ${combination.provider} with embedding model ${combination.modelId} (attempt ${i + 1}/${providerCombinations.length})`);
+
+        const adapterConfig = {
+          apiKey: process.env[combination.ApiKeyName],
+          baseURL: combination.baseUrl
+        };
+
+        adapter = createAdapter(combination.adapter, adapterConfig);
+
+        if (typeof adapter.configure === 'function') {
+          adapter.configure(adapterConfig, combination.model);
+        }
+
+        if (!adapter.isConfigured()) {
+          console.warn(`Adapter ${combination.adapter} is not properly configured`);
+          continue;
+        }
+
+        response = await adapter.embed(
+          { ...request, model: combination.model },
+          combination.providerModelId
+        );
+
+      } catch (error) {
+        lastError = error;
+
+        if (adapter && adapter.isAPIError(error)) {
+          await this.logFailedRequest(requestId, authData, request, error, startTime, combination);
+          throw error;
+        }
+
+        console.error(`Embedding provider ${combination.provider} failed (attempt ${i + 1}/${providerCombinations.length}):`, error instanceof Error ? error.message : error);
+
+        this.notifyError(error, combination, request).catch(console.error);
+        continue;
+      }
+
+      // Hors du try : l'appel est réussi (et payé), une erreur ici ne doit pas relancer un autre provider.
+      // Certains providers (Cohere sur Bedrock) ne renvoient pas l'usage : calcul avec le tokenizer du modèle
+      if (!response.usage) {
+        const promptTokens = this.countEmbeddingTokens(request, combination.model.tokenizer_name);
+        response.usage = { prompt_tokens: promptTokens, total_tokens: promptTokens };
+      }
+
+      setImmediate(() => {
+        this.logSuccessfulEmbedding(requestId, authData, request, combination, startTime, response);
+      });
+
+      return response;
+    }
+
+    throw lastError || new Error('All embedding providers failed');
+  }
+
+  /**
+   * Tokens d'entrée d'une requête d'embeddings (≈ 4 caractères par token si le tokenizer échoue)
+   */
+  private countEmbeddingTokens(request: EmbeddingRequest, tokenizerName: string): number {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    return inputs.reduce((total, input) => {
+      try {
+        return total + calculateTokens(input, tokenizerName);
+      } catch (error) {
+        console.warn(`Tokenizer ${tokenizerName} failed, estimating embedding tokens:`, error instanceof Error ? error.message : error);
+        return total + Math.ceil(input.length / 4);
+      }
+    }, 0);
+  }
+
+  /**
+   * Log une requête d'embeddings réussie (asynchrone)
+   * Pas de transaction ici : la facturation (tokens d'entrée uniquement) est faite par request-processor
+   */
+  async logSuccessfulEmbedding(
+    requestId: string,
+    authData: AuthData,
+    request: EmbeddingRequest,
+    combination: ProviderCombination,
+    startTime: number,
+    response: EmbeddingResponse
+  ): Promise<void> {
+    try {
+      const totalDuration = Date.now() - startTime;
+
+      const { error: requestError } = await supabase
+        .from('requests')
+        .insert({
+          request_id: requestId,
+          user_id: authData.user.id,
+          organization_id: authData.organization?.id || null,
+          api_key_id: authData.apiKey?.id || null,
+          api_key_name: authData.apiKey?.name || null,
+          provider: combination.provider,
+          model: combination.modelId,
+          created_at: new Date(startTime).toISOString(),
+          input_tokens: response.usage?.prompt_tokens ?? null,
+          output_tokens: 0,
+          cached_tokens: null,
+          status: 'ready_to_compute',
+          streaming: false,
+          request_type: 'embedding'
+        });
+
+      if (requestError) {
+        console.error(`Failed to insert embedding request ${requestId}:`, requestError);
+        return;
+      }
+
+      // Les vecteurs ne sont pas stockés, seulement un résumé de la réponse
+      try {
+        await supabase
+          .from('requests_content')
+          .insert({
+            request_id: requestId,
+            request_json: request,
+            response_json: {
+              object: response.object,
+              model: response.model,
+              embeddings_count: response.data.length,
+              usage: response.usage
+            }
+          });
+      } catch (contentError) {
+        console.error(`Failed to insert into requests_content for ${requestId}:`, contentError);
+      }
+
+      await supabase
+        .from('metrics')
+        .insert({
+          request_id: requestId,
+          created_at: new Date().toISOString(),
+          total_duration_ms: totalDuration,
+          is_metrics_calculated: false
+        });
+
+      if (authData.apiKey?.name) {
+        await updateApiKeyUsage(authData.user.id, authData.apiKey.name);
+      }
+
+      triggerWebhookAsync(2000);
+
+    } catch (error) {
+      console.error('Failed to log embedding request:', error);
+    }
+  }
+
   /**
    * Valide une requête de base
    * @param request - Requête à valider
@@ -166,6 +507,7 @@ export class RequestHandler {
     for (let i = 0; i < providerCombinations.length; i++) {
       const combination = providerCombinations[i];
       let adapter: BaseAdapter | undefined;
+      let probeClaimed = false;
       
       try {
         console.log(`Trying provider ${combination.provider} with model ${combination.modelId} and model_id_provider ${combination.providerModelId} (attempt ${i + 1}/${providerCombinations.length})`);
@@ -198,7 +540,8 @@ export class RequestHandler {
           continue;
         }
 
-        return await this.handleNonStreamingRequest(
+        probeClaimed = providerHealth.claimProbe(combination);
+        const result = await this.handleNonStreamingRequest(
           request,
           adapter,
           combination,
@@ -207,14 +550,30 @@ export class RequestHandler {
           startTime
         );
 
+        providerHealth.recordSuccess(combination);
+        this.recordRoutingDecision(request, combination, requestId, i + 1, result.usage);
+        return result;
+
       } catch (error) {
         lastError = error;
+
+        // Client déconnecté : l'appel amont a été annulé, pas de fallback
+        if (request._abortSignal?.aborted) {
+          console.log(`🛑 Client disconnected, upstream ${combination.provider} request cancelled`);
+          if (probeClaimed) providerHealth.releaseProbe(combination);
+          await this.logCancelledRequest(requestId, authData, request, combination, startTime, [], null, null);
+          throw error;
+        }
         
         // Si c'est une APIError (erreur métier), on la retourne directement
         if (adapter && adapter.isAPIError(error)) {
-          await this.logFailedRequest(requestId, authData.user.id, request, error, startTime, combination);
+          if (probeClaimed) providerHealth.releaseProbe(combination);
+          await this.logFailedRequest(requestId, authData, request, error, startTime, combination);
           throw error;
         }
+
+        // Alimenter le circuit breaker avec l'échec technique
+        providerHealth.recordFailure(combination, error);
         // Sinon, c'est une erreur technique, on notifie et on continue
         const errorDetails = {
           provider: combination.provider,
@@ -271,60 +630,202 @@ export class RequestHandler {
     let lastError: unknown = null;
 
     async function* streamGeneratorWithFallback(): AsyncGenerator<ChatCompletionChunk> {
+      // État du failover mid-stream : contenu déjà envoyé au client et identifiant du stream
+      let deliveredContent = '';
+      let streamId: string | null = null;
+      let attemptRequestId = requestId;
+      let attemptStartTime = startTime;
+
+      // Hedging : course entre les deux premiers providers si le premier tarde à répondre
+      let hedgeOutcome: HedgeOutcome | null = null;
+      if (request._hedgeAfterMs && providerCombinations.length >= 2) {
+        hedgeOutcome = await self.runHedgedRace(request, providerCombinations, requestId, authData, startTime, request._hedgeAfterMs);
+
+        if (hedgeOutcome.winner) {
+          attemptRequestId = hedgeOutcome.winner.requestId;
+          attemptStartTime = hedgeOutcome.winner.startTime;
+        } else {
+          lastError = hedgeOutcome.error;
+
+          // Client déconnecté pendant la course : les tentatives ont été loggées par runHedgedRace
+          if (request._abortSignal?.aborted) {
+            return;
+          }
+
+          if (self.isClientError(hedgeOutcome.error)) {
+            await self.logFailedRequest(requestId, authData, request, hedgeOutcome.error, startTime, providerCombinations[0]);
+            throw self.toStreamError(hedgeOutcome.error, requestId, providerCombinations[0]);
+          }
+        }
+      }
+
       for (let i = 0; i < providerCombinations.length; i++) {
         const combination = providerCombinations[i];
         let adapter: BaseAdapter | undefined;
+        const attemptChunks: ChatCompletionChunk[] = [];
+        let probeClaimed = false;
+        let attemptFirstChunkTime: number | null = null;
+        let attemptLastChunkTime: number | null = null;
+
+        // Combinaisons déjà tentées par le hedging (hors gagnant)
+        const hedgedAttempt = hedgeOutcome?.winner?.index === i ? hedgeOutcome.winner : null;
+        if (!hedgedAttempt && hedgeOutcome?.attempted.includes(i)) {
+          continue;
+        }
+
+        // Après une coupure mid-stream, on relance avec le contenu partiel en prefill
+        const isContinuation = deliveredContent.length > 0;
+        const attemptRequest = isContinuation
+          ? self.buildContinuationRequest(request, deliveredContent, combination, requestId)
+          : request;
         
         try {
-          console.log(`Trying provider ${combination.provider} with model ${combination.modelId} and model_id_provider ${combination.providerModelId}  with base_url ${combination.baseUrl} (streaming attempt ${i + 1}/${providerCombinations.length})`);
-
-          // Créer l'adapter avec la configuration appropriée
-          const adapterConfig = {
-            apiKey: process.env[combination.ApiKeyName],
-            baseURL: combination.baseUrl
-          };
-
-          adapter = createAdapter(combination.adapter, adapterConfig);
+          let generator: AsyncGenerator<ChatCompletionChunk>;
+
+          if (hedgedAttempt) {
+            // Le gagnant du hedging a déjà reçu son premier chunk
+            adapter = hedgedAttempt.adapter;
+            generator = self.prependChunk(hedgedAttempt.firstChunk, hedgedAttempt.generator);
+          } else {
+            console.log(`Trying provider ${combination.provider} with model ${combination.modelId} and model_id_provider ${combination.providerModelId}  with base_url ${combination.baseUrl} (streaming attempt ${i + 1}/${providerCombinations.length}${isContinuation ? ', continuation' : ''})`);
+
+            // Créer l'adapter avec la configuration appropriée
+            const adapterConfig = {
+              apiKey: process.env[combination.ApiKeyName],
+              baseURL: combination.baseUrl
+            };
+
+            adapter = createAdapter(combination.adapter, adapterConfig);
+
+            // Configurer l'adapter avec les informations du modèle
+            if (typeof adapter.configure === 'function') {
+              adapter.configure(adapterConfig, combination.model);
+            }
+            
+            // Vérifier que l'adapter est configuré
+            if (!adapter.isConfigured()) {
+              console.warn(`Adapter ${combination.adapter} is not properly configured`);
+              continue;
+            }
+            
+            // Valider la requête pour ce provider
+            if (!adapter.validateRequest(attemptRequest, combination.model)) {
+              console.warn(`Request validation failed for ${combination.provider}`);
+              continue;
+            }
 
-          // Configurer l'adapter avec les informations du modèle
-          if (typeof adapter.configure === 'function') {
-            adapter.configure(adapterConfig, combination.model);
-          }
-          
-          // Vérifier que l'adapter est configuré
-          if (!adapter.isConfigured()) {
-            console.warn(`Adapter ${combination.adapter} is not properly configured`);
-            continue;
-          }
-          
-          // Valider la requête pour ce provider
-          if (!adapter.validateRequest(request, combination.model)) {
-            console.warn(`Request validation failed for ${combination.provider}`);
-            continue;
+            // Tenter la requête streaming
+            probeClaimed = providerHealth.claimProbe(combination);
+            generator = await self.handleStreamingRequest(
+              attemptRequest,
+              adapter,
+              combination,
+              attemptRequestId,
+              authData,
+              attemptStartTime
+            );
           }
 
-          // Tenter la requête streaming
-          const generator = await self.handleStreamingRequest(
-            request,
-            adapter,
-            combination,
-            requestId,
-            authData,
-            startTime
-          );
-
           // Si on arrive ici, la requête a réussi, yield tous les chunks
-          yield* generator;
+          for await (const chunk of generator) {
+            const now = Date.now();
+            attemptFirstChunkTime = attemptFirstChunkTime ?? now;
+            attemptLastChunkTime = now;
+            attemptChunks.push(chunk);
+            streamId = streamId || chunk.id;
+
+            const splicedChunk = isContinuation ? self.spliceContinuationChunk(chunk, streamId) : chunk;
+            if (splicedChunk) {
+              yield splicedChunk;
+            }
+          }
+
+          providerHealth.recordSuccess(combination);
+          const usageChunk = [...attemptChunks].reverse().find(chunk => chunk.usage);
+          self.recordRoutingDecision(request, combination, attemptRequestId, i + 1, usageChunk?.usage);
           return; // Succès, on sort de la boucle
 
         } catch (error) {
           lastError = error;
+
+          // Client déconnecté : l'appel amont est annulé, on logge l'usage partiel sans fallback
+          if (request._abortSignal?.aborted) {
+            console.log(`🛑 Client disconnected, upstream ${combination.provider} stream cancelled after ${attemptChunks.length} chunks`);
+            if (probeClaimed) providerHealth.releaseProbe(combination);
+
+            const cancelledRequestId = attemptRequestId;
+            const cancelledStartTime = attemptStartTime;
+            setImmediate(() => {
+              self.logCancelledRequest(
+                cancelledRequestId,
+                authData,
+                attemptRequest,
+                combination,
+                cancelledStartTime,
+                attemptChunks,
+                attemptFirstChunkTime,
+                attemptLastChunkTime
+              );
+            });
+            return;
+          }
+
+          // Erreur après l'envoi de chunks au client : le stream ne peut pas être repris de zéro
+          if (attemptChunks.length > 0) {
+            providerHealth.recordFailure(combination, error);
+            const partialContent = self.extractStreamedContent(attemptChunks);
+            const canFailover = !!request._streamFailover &&
+              i < providerCombinations.length - 1 &&
+              !self.hasStreamedToolCalls(attemptChunks);
+
+            console.error(`Streaming provider ${combination.provider} failed mid-stream after ${attemptChunks.length} chunks${canFailover ? ', failing over with prefill' : ''}:`, error instanceof Error ? error.message : error);
+
+            // La tentative partielle est loggée 'interrupted' et facturée sur les tokens réellement générés
+            const failedRequestId = attemptRequestId;
+            const failedStartTime = attemptStartTime;
+            const timeToFirstChunk = attemptFirstChunkTime !== null ? attemptFirstChunkTime - failedStartTime : null;
+            const dtFirstLastChunk = attemptFirstChunkTime !== null && attemptLastChunkTime !== null
+              ? attemptLastChunkTime - attemptFirstChunkTime
+              : null;
+            const errorMessage = `Stream interrupted: ${error instanceof Error ? error.message : String(error)}`;
+
+            setImmediate(() => {
+              self.logSuccessfulRequest(
+                failedRequestId,
+                authData,
+                attemptRequest,
+                combination,
+                failedStartTime,
+                timeToFirstChunk,
+                dtFirstLastChunk,
+                true, // streaming
+                attemptChunks,
+                errorMessage,
+                'interrupted'
+              );
+            });
+
+            self.notifyError(error, combination, attemptRequest).catch(console.error);
+
+            if (!canFailover) {
+              throw self.toStreamError(error, failedRequestId, combination);
+            }
+
+            deliveredContent += partialContent;
+            attemptRequestId = uuidv4();
+            attemptStartTime = Date.now();
+            continue;
+          }
           
           // Si c'est une APIError (erreur métier), on la retourne directement
           if (adapter && adapter.isAPIError(error)) {
-            await self.logFailedRequest(requestId, authData.user.id, request, error, startTime, combination);
-            throw error;
+            if (probeClaimed) providerHealth.releaseProbe(combination);
+            await self.logFailedRequest(attemptRequestId, authData, attemptRequest, error, attemptStartTime, combination);
+            throw self.toStreamError(error, attemptRequestId, combination);
           }
+
+          // Alimenter le circuit breaker avec l'échec technique
+          providerHealth.recordFailure(combination, error);
           
           // Sinon, c'est une erreur technique, on notifie et on continue
           const errorDetails = {
@@ -335,7 +836,7 @@ export class RequestHandler {
             adapter: combination.adapter,
             attemptNumber: i + 1,
             totalAttempts: providerCombinations.length,
-            requestId: requestId,
+            requestId: attemptRequestId,
             streaming: true,
             error: {
               name: error instanceof Error ? error.constructor.name : 'UnknownError',
@@ -357,11 +858,11 @@ export class RequestHandler {
           console.error(`Streaming provider ${combination.provider} failed (attempt ${i + 1}/${providerCombinations.length}):`, JSON.stringify(errorDetails, null, 2));
           
           // Envoyer notification d'erreur (asynchrone)
-          self.notifyError(error, combination, request).catch(console.error);
+          self.notifyError(error, combination, attemptRequest).catch(console.error);
           
           // Si c'est le dernier provider, on lance l'erreur
           if (i === providerCombinations.length - 1) {
-            throw lastError || new Error('All streaming providers failed');
+            break;
           }
           
           // Sinon, on continue avec le provider suivant
@@ -370,12 +871,331 @@ export class RequestHandler {
       }
       
       // Si on arrive ici, aucun provider n'a fonctionné
-      throw lastError || new Error('All streaming providers failed');
+      const finalError = lastError || new Error('All streaming providers failed');
+      const lastCombination = providerCombinations[providerCombinations.length - 1];
+      await self.logFailedRequest(attemptRequestId, authData, request, finalError, attemptStartTime, lastCombination);
+      throw self.toStreamError(finalError, attemptRequestId, lastCombination);
     }
 
     return streamGeneratorWithFallback();
   }
 
+  /**
+   * Démarre une tentative streaming et attend son premier chunk
+   */
+  private async startStreamingAttempt(
+    request: StandardRequest,
+    combination: ProviderCombination,
+    index: number,
+    requestId: string,
+    authData: AuthData,
+    startTime: number
+  ): Promise<StreamingAttempt> {
+    const adapterConfig = {
+      apiKey: process.env[combination.ApiKeyName],
+      baseURL: combination.baseUrl
+    };
+
+    const adapter = createAdapter(combination.adapter, adapterConfig);
+    if (typeof adapter.configure === 'function') {
+      adapter.configure(adapterConfig, combination.model);
+    }
+
+    if (!adapter.isConfigured()) {
+      throw new AdapterError(`Adapter ${combination.adapter} is not properly configured`, 500, 'CONFIGURATION_ERROR', combination.adapter);
+    }
+
+    if (!adapter.validateRequest(request, combination.model)) {
+      throw new AdapterError(`Request validation failed for ${combination.provider}`, 500, 'CONFIGURATION_ERROR', combination.adapter);
+    }
+
+    const probeClaimed = providerHealth.claimProbe(combination);
+    let generator: AsyncGenerator<ChatCompletionChunk>;
+    let first: IteratorResult<ChatCompletionChunk>;
+    try {
+      generator = await this.handleStreamingRequest(request, adapter, combination, requestId, authData, startTime);
+      first = await generator.next();
+    } catch (error) {
+      // Erreur client ou tentative annulée : aucun verdict sur la santé du provider
+      if (probeClaimed && (request._abortSignal?.aborted || this.isClientError(error))) {
+        providerHealth.releaseProbe(combination);
+      }
+      throw error;
+    }
+
+    return {
+      index,
+      combination,
+      adapter,
+      generator,
+      firstChunk: first.done ? null : first.value,
+      firstChunkAt: first.done ? null : Date.now(),
+      requestId,
+      startTime
+    };
+  }
+
+  /**
+   * Lance le premier provider, puis le second s'il n'a pas produit de premier chunk
+   * après hedgeAfterMs. Le premier à répondre gagne, l'autre est annulé.
+   */
+  private async runHedgedRace(
+    request: StandardRequest,
+    providerCombinations: ProviderCombination[],
+    requestId: string,
+    authData: AuthData,
+    startTime: number,
+    hedgeAfterMs: number
+  ): Promise<HedgeOutcome> {
+    const attemptIds = [requestId, uuidv4()];
+    const attemptStartTimes = [startTime, startTime];
+    // Chaque tentative a son propre signal pour pouvoir annuler le perdant sans toucher au gagnant
+    const controllers = [this.linkAbortSignal(request._abortSignal), this.linkAbortSignal(request._abortSignal)];
+    const attemptRequests = controllers.map(controller => ({ ...request, _abortSignal: controller.signal }));
+    const attempts: Promise<StreamingAttempt>[] = [
+      this.startStreamingAttempt(attemptRequests[0], providerCombinations[0], 0, attemptIds[0], authData, startTime)
+    ];
+
+    let hedgeTimer: NodeJS.Timeout | undefined;
+    const timerElapsed = new Promise<'hedge'>(resolve => {
+      hedgeTimer = setTimeout(() => resolve('hedge'), hedgeAfterMs);
+    });
+
+    const primaryResult = await Promise.race([
+      attempts[0].then(attempt => ({ attempt }), error => ({ error })),
+      timerElapsed
+    ]);
+    clearTimeout(hedgeTimer);
+
+    // Le premier provider a répondu (ou échoué) avant le délai : pas de hedge
+    if (primaryResult !== 'hedge') {
+      if ('attempt' in primaryResult) {
+        return { winner: primaryResult.attempt, attempted: [0], error: null };
+      }
+
+      if (request._abortSignal?.aborted) {
+        await this.logCancelledRequest(attemptIds[0], authData, request, providerCombinations[0], startTime, [], null, null);
+      } else if (!this.isClientError(primaryResult.error)) {
+        this.recordAttemptFailure(providerCombinations[0], primaryResult.error, request);
+      }
+      return { winner: null, attempted: [0], error: primaryResult.error };
+    }
+
+    console.log(`⏱️ No first chunk from ${providerCombinations[0].provider} after ${hedgeAfterMs}ms, hedging with ${providerCombinations[1].provider}`);
+    attemptStartTimes[1] = Date.now();
+    attempts.push(this.startStreamingAttempt(attemptRequests[1], providerCombinations[1], 1, attemptIds[1], authData, attemptStartTimes[1]));
+
+    const errors: unknown[] = [];
+    const winner = await new Promise<StreamingAttempt | null>(resolve => {
+      attempts.forEach(attempt => attempt.then(resolve, error => {
+        errors.push(error);
+        if (errors.length === attempts.length) {
+          resolve(null);
+        }
+      }));
+    });
+
+    if (winner) {
+      console.log(`🏁 Hedge won by ${winner.combination.provider}`);
+      // Annule l'appel amont du perdant s'il attend encore son premier chunk
+      controllers.forEach((controller, index) => {
+        if (index !== winner.index) {
+          controller.abort();
+        }
+      });
+    }
+
+    // Traiter le perdant (annulation, facturation éventuelle) et les échecs
+    attempts.forEach((attempt, index) => {
+      const combination = providerCombinations[index];
+      attempt.then(
+        result => {
+          if (result !== winner) {
+            this.cancelHedgeLoser(result, request, authData).catch(console.error);
+          }
+        },
+        error => {
+          // Annulé (hedge perdu ou client déconnecté) : ni échec ni circuit breaker
+          if (controllers[index].signal.aborted) {
+            const reason = request._abortSignal?.aborted ? CLIENT_CANCELLED_MESSAGE : HEDGE_CANCELLED_MESSAGE;
+            this.logCancelledRequest(attemptIds[index], authData, request, combination, attemptStartTimes[index], [], null, null, reason).catch(console.error);
+            return;
+          }
+          if (!this.isClientError(error)) {
+            this.recordAttemptFailure(combination, error, request);
+          }
+          if (winner) {
+            this.logFailedRequest(attemptIds[index], authData, request, error, startTime, combination).catch(console.error);
+          }
+        }
+      );
+    });
+
+    return { winner, attempted: [0, 1], error: winner ? null : errors[0] };
+  }
+
+  /**
+   * Annule le perdant d'un hedge
+   * Il n'est facturé que s'il avait déjà commencé à générer (premier chunk reçu)
+   */
+  private async cancelHedgeLoser(attempt: StreamingAttempt, request: StandardRequest, authData: AuthData): Promise<void> {
+    // Ferme la connexion amont (voir le finally de handleStreamingRequest)
+    await attempt.generator.return(undefined);
+
+    console.log(`✂️ Hedge loser ${attempt.combination.provider} cancelled`);
+    providerHealth.recordSuccess(attempt.combination);
+
+    await this.logCancelledRequest(
+      attempt.requestId,
+      authData,
+      request,
+      attempt.combination,
+      attempt.startTime,
+      attempt.firstChunk ? [attempt.firstChunk] : [],
+      attempt.firstChunkAt,
+      attempt.firstChunkAt,
+      HEDGE_CANCELLED_MESSAGE
+    );
+  }
+
+  /**
+   * Enrichit une erreur de stream avec l'identifiant de requête et le provider
+   */
+  private toStreamError(error: unknown, requestId: string, combination?: ProviderCombination): StreamError {
+    if (error instanceof StreamError) {
+      return error;
+    }
+
+    const status = error && typeof error === 'object' && 'status' in error && typeof error.status === 'number'
+      ? error.status
+      : 500;
+    const code = error instanceof AdapterError ? error.code : 'UNKNOWN_ERROR';
+    const message = error instanceof Error ? error.message : 'Streaming error';
+
+    return new StreamError(message, status, code, requestId, combination?.provider, error);
+  }
+
+  /**
+   * Crée un AbortController annulé en même temps que le signal parent
+   */
+  private linkAbortSignal(parent?: AbortSignal): AbortController {
+    const controller = new AbortController();
+
+    if (parent?.aborted) {
+      controller.abort();
+    } else if (parent) {
+      parent.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    return controller;
+  }
+
+  /**
+   * Enregistre un échec technique : circuit breaker et notification
+   */
+  private recordAttemptFailure(combination: ProviderCombination, error: unknown, request: StandardRequest): void {
+    if (error instanceof AdapterError && error.code === 'CONFIGURATION_ERROR') {
+      return;
+    }
+
+    providerHealth.recordFailure(combination, error);
+    this.notifyError(error, combination, request).catch(console.error);
+  }
+
+  /**
+   * Erreur 400 à renvoyer au client (même règle que BaseAdapter.isAPIError)
+   */
+  private isClientError(error: unknown): boolean {
+    if (error instanceof AdapterError && error.code === 'CONFIGURATION_ERROR') {
+      return false;
+    }
+    return !!error && typeof error === 'object' && 'status' in error && error.status === 400;
+  }
+
+  /**
+   * Réinjecte un chunk déjà consommé en tête d'un générateur
+   */
+  private async *prependChunk(
+    firstChunk: ChatCompletionChunk | null,
+    generator: AsyncGenerator<ChatCompletionChunk>
+  ): AsyncGenerator<ChatCompletionChunk> {
+    if (firstChunk) {
+      yield firstChunk;
+    }
+    yield* generator;
+  }
+
+  /**
+   * Construit la requête de continuation après une coupure mid-stream
+   * Le contenu déjà envoyé est ajouté comme message assistant (prefill). Pour les adapters
+   * qui ne continuent pas un message assistant final, on ajoute une consigne explicite.
+   */
+  private buildContinuationRequest(
+    request: StandardRequest,
+    deliveredContent: string,
+    combination: ProviderCombination,
+    originalRequestId: string
+  ): StandardRequest {
+    const supportsPrefill = PREFILL_ADAPTERS.includes(combination.adapter);
+
+    // Anthropic refuse un prefill terminé par des espaces
+    const prefill = supportsPrefill ? deliveredContent.trimEnd() : deliveredContent;
+    const messages: StandardRequest['messages'] = [...request.messages];
+
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    if (!supportsPrefill && prefill) {
+      messages.push({ role: 'user', content: CONTINUATION_PROMPT });
+    }
+
+    return {
+      ...request,
+      messages,
+      _continuationOf: originalRequestId
+    };
+  }
+
+  /**
+   * Adapte un chunk de continuation pour qu'il prolonge le stream déjà envoyé
+   * @returns null si le chunk ne contient plus rien d'utile pour le client
+   */
+  private spliceContinuationChunk(chunk: ChatCompletionChunk, streamId: string): ChatCompletionChunk | null {
+    const choices = (chunk.choices || []).map(choice => {
+      const { role, ...delta } = choice.delta || {};
+      return { ...choice, delta };
+    });
+
+    const hasPayload = chunk.usage || choices.some(choice =>
+      choice.finish_reason || choice.delta.content || (choice.delta.tool_calls && choice.delta.tool_calls.length > 0)
+    );
+
+    if (!hasPayload) {
+      return null;
+    }
+
+    return { ...chunk, id: streamId, choices };
+  }
+
+  /**
+   * Reconstruit le texte envoyé au client à partir des chunks d'une tentative
+   */
+  private extractStreamedContent(chunks: ChatCompletionChunk[]): string {
+    return chunks
+      .map(chunk => chunk.choices?.[0]?.delta?.content || '')
+      .join('');
+  }
+
+  /**
+   * Un tool call partiel ne peut pas être repris : pas de failover dans ce cas
+   */
+  private hasStreamedToolCalls(chunks: ChatCompletionChunk[]): boolean {
+    return chunks.some(chunk =>
+      chunk.choices?.some(choice => choice.delta?.tool_calls && choice.delta.tool_calls.length > 0)
+    );
+  }
+
   /**
    * Gère une requête en mode streaming
    */
@@ -398,6 +1218,10 @@ export class RequestHandler {
     const self = this;
 
     async function* streamGenerator(): AsyncGenerator<ChatCompletionChunk> {
+      let upstream: { destroy?: () => void } | null = null;
+      let isFinished = false;
+      let removeAbortListener: (() => void) | null = null;
+
       try {
         // Enrichir la requête avec les informations du modèle
         const enrichedRequest: StandardRequest = {
@@ -411,6 +1235,7 @@ export class RequestHandler {
         if (!('data' in response)) {
           throw new Error('Invalid response format for streaming');
         }
+        upstream = response.data;
         
         // Créer un stream personnalisé pour gérer les chunks
         const chunkQueue: ChatCompletionChunk[] = [];
@@ -442,6 +1267,27 @@ export class RequestHandler {
           }
         };
 
+        // Déconnexion du client : on débloque l'attente en cours, le finally ferme la connexion amont
+        const abortSignal = request._abortSignal;
+        if (abortSignal) {
+          const onAbort = (): void => {
+            streamError = new Error(CLIENT_CANCELLED_MESSAGE);
+            isStreamComplete = true;
+            if (resolveNextChunk) {
+              const resolve = resolveNextChunk;
+              resolveNextChunk = null;
+              resolve(null);
+            }
+          };
+
+          if (abortSignal.aborted) {
+            onAbort();
+          } else {
+            abortSignal.addEventListener('abort', onAbort, { once: true });
+            removeAbortListener = () => abortSignal.removeEventListener('abort', onAbort);
+          }
+        }
+
         // Traiter les données du stream
         response.data.on('data', (chunk: Buffer) => {
           buffer += chunk.toString();
@@ -513,6 +1359,7 @@ export class RequestHandler {
         if (streamError) {
           throw streamError;
         }
+        isFinished = true;
 
         // Log de la requête réussie (asynchrone)
         const dtFirstLastChunk = metrics.lastChunkTime && metrics.firstChunkTime ? 
@@ -535,6 +1382,13 @@ export class RequestHandler {
       } catch (error) {
         // Re-lancer l'erreur pour que le fallback puisse la gérer
         throw error;
+      } finally {
+        removeAbortListener?.();
+
+        // Stream abandonné par le consommateur (hedge perdu, client déconnecté, erreur) : fermer la connexion amont
+        if (!isFinished && upstream && typeof upstream.destroy === 'function') {
+          upstream.destroy();
+        }
       }
     }
 
@@ -600,7 +1454,9 @@ export class RequestHandler {
     timeToFirstChunk: number | null, 
     dtFirstLastChunk: number | null, 
     isStreaming: boolean, 
-    responseDataOrChunks: ChatCompletion | ChatCompletionChunk[]
+    responseDataOrChunks: ChatCompletion | ChatCompletionChunk[],
+    errorMessage: string | null = null,
+    status: RequestStatus = 'ready_to_compute'
   ): Promise<void> {
     try {
       let responseJson: ChatCompletion | null = null;
@@ -643,7 +1499,8 @@ export class RequestHandler {
               role: 'assistant',
               content: reconstructedContent
             },
-            finish_reason: finalChunk?.choices?.[0]?.finish_reason || 'stop'
+            // Stream interrompu par une erreur : finish_reason 'error' dans les logs
+            finish_reason: finalChunk?.choices?.[0]?.finish_reason || (errorMessage && status !== 'cancelled' ? 'error' : 'stop')
           }],
           usage: usage || {
             prompt_tokens: undefined,
@@ -666,6 +1523,19 @@ export class RequestHandler {
         cachedTokens = usage.cached_tokens || null;
       }
 
+      // Requête annulée ou interrompue : le provider n'a pas envoyé d'usage, on compte les tokens réellement consommés
+      // (les requêtes 'cancelled' et 'interrupted' ne passent pas par le request-processor)
+      const requestJson = this.toRequestJson(request);
+      const isPartial = status === 'cancelled' || status === 'interrupted';
+      if (isPartial && (inputTokens === null || outputTokens === null)) {
+        try {
+          inputTokens = inputTokens ?? calculateTokens(JSON.stringify(requestJson), combination.model.tokenizer_name);
+          outputTokens = outputTokens ?? (responseJson ? calculateTokens(JSON.stringify(responseJson), combination.model.tokenizer_name) : 0);
+        } catch (tokenError) {
+          console.error(`Failed to calculate partial usage for ${requestId}:`, tokenError);
+        }
+      }
+
       // 🆕 CALCULER LE COÛT TOTAL (requête principale + évaluation famille)
       let mainRequestCost = 0;
       if (inputTokens && outputTokens) {
@@ -674,14 +1544,21 @@ export class RequestHandler {
         mainRequestCost = inputCost + outputCost;
       }
 
+      // Appliquer la remise batch si la requête provient de /v1/batches
+      let transactionDescription = `Request to ${combination.modelId}`;
+      if (request._batchId) {
+        const batchMultiplier = getBatchDiscountMultiplier(combination.model);
+        mainRequestCost *= batchMultiplier;
+        transactionDescription = `Batch request to ${combination.modelId} (${request._batchId}, x${batchMultiplier})`;
+      }
+
       // Ajouter le coût d'évaluation si présent
       const routingInfo = (request as any)._routingInfo;
       let totalTransactionCost = mainRequestCost;
-      let transactionDescription = `Request to ${combination.modelId}`;
 
       if (routingInfo) {
         totalTransactionCost += routingInfo.evaluationCost;
-        transactionDescription = `Request to ${combination.modelId} (via ${routingInfo.originalFamily} routing, complexity: ${routingInfo.complexityScore})`;
+        transactionDescription = `Request to ${combination.modelId} (via ${routingInfo.originalFamily} routing, complexity: ${routingInfo.complexityScore ?? routingInfo.reasoning})`;
         
         console.log(`💰 Family routing cost: +$${routingInfo.evaluationCost.toFixed(6)} for evaluation (${routingInfo.evaluationTokens} tokens)`);
       }
@@ -692,6 +1569,8 @@ export class RequestHandler {
         .insert({
           request_id: requestId,
           user_id: authData.user.id,
+          organization_id: authData.organization?.id || null,
+          api_key_id: authData.apiKey?.id || null,
           api_key_name: authData.apiKey?.name || null,
           provider: combination.provider,
           model: combination.modelId,
@@ -699,8 +1578,11 @@ export class RequestHandler {
           input_tokens: inputTokens,
           output_tokens: outputTokens,
           cached_tokens: cachedTokens,
-          status: 'ready_to_compute',
+          status,
           streaming: isStreaming,
+          error_message: errorMessage,
+          request_type: 'chat',
+          batch_id: request._batchId || null,
           family_routing_info: routingInfo || null // 🆕 Stocker les infos de routing
         })
         .select()
@@ -717,7 +1599,7 @@ export class RequestHandler {
           .from('requests_content')
           .insert({
             request_id: requestId,
-            request_json: request,
+            request_json: requestJson,
             response_json: responseJson
           });
       } catch (contentError) {
@@ -757,6 +1639,7 @@ export class RequestHandler {
           .from('transactions')
           .insert({
             user_id: authData.user.id,
+            organization_id: authData.organization?.id || null,
             amount: totalTransactionCost,
             type: 'debit',
             request_id: requestId,
@@ -784,11 +1667,12 @@ export class RequestHandler {
    */
   async logFailedRequest(
     requestId: string, 
-    userId: string, 
-    request: StandardRequest, 
+    authData: AuthData, 
+    request: StandardRequest | EmbeddingRequest, 
     error: unknown, 
     startTime: number, 
-    combination?: ProviderCombination
+    combination?: ProviderCombination,
+    status: RequestStatus = 'error'
   ): Promise<void> {
     try {
       const endTime = Date.now();
@@ -798,20 +1682,24 @@ export class RequestHandler {
         .from('requests')
         .insert({
           request_id: requestId,
-          user_id: userId,
+          user_id: authData.user.id,
+          organization_id: authData.organization?.id || null,
+          api_key_id: authData.apiKey?.id || null,
+          api_key_name: authData.apiKey?.name || null,
           provider: combination?.provider || 'unknown',
           model: combination?.modelId || (typeof request.model === 'string' ? request.model : 'unknown'),
           created_at: new Date(startTime).toISOString(),
-          status: 'error',
-          streaming: request.stream || false,
-          error_message: errorMessage
+          status,
+          streaming: ('stream' in request && request.stream) || false,
+          error_message: errorMessage,
+          request_type: 'input' in request ? 'embedding' : 'chat'
         });
 
       await supabase
         .from('requests_content')
         .insert({
           request_id: requestId,
-          request_json: request
+          request_json: this.toRequestJson(request)
         });
 
       await supabase
@@ -826,10 +1714,126 @@ export class RequestHandler {
     }
   }
 
+  /**
+   * Log une requête annulée (client déconnecté ou perdant d'un hedge) avec le statut 'cancelled'
+   * Les chunks déjà reçus sont facturés, sans chunk aucun token n'est compté
+   */
+  async logCancelledRequest(
+    requestId: string,
+    authData: AuthData,
+    request: StandardRequest,
+    combination: ProviderCombination,
+    startTime: number,
+    chunks: ChatCompletionChunk[],
+    firstChunkTime: number | null,
+    lastChunkTime: number | null,
+    reason: string = CLIENT_CANCELLED_MESSAGE
+  ): Promise<void> {
+    if (chunks.length === 0) {
+      await this.logFailedRequest(requestId, authData, request, new Error(reason), startTime, combination, 'cancelled');
+      return;
+    }
+
+    await this.logSuccessfulRequest(
+      requestId,
+      authData,
+      request,
+      combination,
+      startTime,
+      firstChunkTime !== null ? firstChunkTime - startTime : null,
+      firstChunkTime !== null && lastChunkTime !== null ? lastChunkTime - firstChunkTime : null,
+      true, // streaming
+      chunks,
+      reason,
+      'cancelled'
+    );
+  }
+
+  /**
+   * Requête telle que stockée dans requests_content (sans le signal d'annulation ni la décision de routage)
+   */
+  private toRequestJson(
+    request: StandardRequest | EmbeddingRequest
+  ): Omit<StandardRequest, '_abortSignal' | '_routingMetadata'> | EmbeddingRequest {
+    if (!('_abortSignal' in request) && !('_routingMetadata' in request)) {
+      return request;
+    }
+
+    const { _abortSignal, _routingMetadata, ...requestJson } = request as StandardRequest;
+    return requestJson;
+  }
+
+  /**
+   * Renseigne la décision de routage exposée au client (en-têtes X-Makehub-*, objet makehub du dernier chunk)
+   * Le coût est calculé sur l'usage réel s'il est connu, sinon estimé
+   */
+  private recordRoutingDecision(
+    request: StandardRequest,
+    combination: ProviderCombination,
+    requestId: string,
+    attempts: number,
+    usage?: Usage
+  ): void {
+    if (!request._routingMetadata) {
+      return;
+    }
+
+    const inputTokens = usage?.prompt_tokens || usage?.input_tokens;
+    const outputTokens = usage?.completion_tokens || usage?.output_tokens;
+    const mainCost = inputTokens && outputTokens
+      ? (inputTokens * combination.model.price_per_input_token + outputTokens * combination.model.price_per_output_token) / 1000
+      : estimateRequestCost(request, combination);
+
+    request._routingMetadata = {
+      ...request._routingMetadata,
+      request_id: requestId,
+      provider: combination.provider,
+      model: combination.modelId,
+      attempts,
+      estimated_cost: mainCost + (request._routingInfo?.evaluationCost || 0)
+    };
+  }
+
+  /**
+   * Rattache la réservation wallet à la tentative facturée, ou la libère si aucune ne le sera
+   * (annulation client, aucun provider n'a répondu)
+   */
+  private async finalizeWalletHold(request: StandardRequest, requestId: string): Promise<void> {
+    const billedRequestId = request._routingMetadata?.provider ? request._routingMetadata.request_id : null;
+
+    if (!billedRequestId || request._abortSignal?.aborted) {
+      await walletHoldService.releaseHold(requestId);
+    } else if (billedRequestId !== requestId) {
+      await walletHoldService.transferHold(requestId, billedRequestId);
+    }
+  }
+
+  /**
+   * Finalise la réservation wallet une fois le stream terminé (ou interrompu)
+   */
+  private async *withWalletHold(
+    generator: AsyncGenerator<ChatCompletionChunk>,
+    request: StandardRequest,
+    requestId: string
+  ): AsyncGenerator<ChatCompletionChunk> {
+    let completed = false;
+
+    try {
+      yield* generator;
+      completed = true;
+    } finally {
+      if (completed) {
+        await this.finalizeWalletHold(request, requestId);
+      } else {
+        await walletHoldService.releaseHold(requestId);
+      }
+    }
+  }
+
   /**
    * Envoie une notification d'erreur à ntfy (asynchrone)
    */
-  async notifyError(error: unknown, combination: ProviderCombination, request: StandardRequest): Promise<void> {
+  async notifyError(error: unknown, combination: ProviderCombination, request: StandardRequest | EmbeddingRequest): Promise<void> {
     if (!this.ntfyUrl) {
       return;
     }
@@ -2,6 +2,8 @@ import dotenv from 'dotenv';
 import { supabase } from '../config/database.js';
 import { get_encoding, type Tiktoken } from 'tiktoken';
 import axios from 'axios';
+import { getBatchDiscountMultiplier } from './models.js';
+import { walletHoldService } from './wallet-holds.js';
 import type { 
   RequestWithContentAndModel,
   RequestStatus,
@@ -339,6 +341,21 @@ function calculateRequestTokens(
     const requestJson = request.requests_content.request_json;
     const responseJson = request.requests_content.response_json;
     
+    // Embeddings : seuls les textes d'entrée sont tokenisés, pas de tokens de sortie
+    if (request.request_type === 'embedding') {
+      const inputs: unknown[] = Array.isArray(requestJson.input) ? requestJson.input : [requestJson.input];
+      const inputTokens = inputs.reduce<number>(
+        (total, input) => total + (typeof input === 'string' ? calculateTokens(input, tokenizerName) : 0),
+        0
+      );
+      
+      return {
+        inputTokens,
+        outputTokens: 0,
+        success: true
+      };
+    }
+    
     // Calculate input tokens
     const requestText = JSON.stringify(requestJson);
     const inputTokens = calculateTokens(requestText, tokenizerName);
@@ -498,10 +515,10 @@ async function processReadyRequests(
     const { data: requests, error } = await supabase
       .from('requests')
       .select(`
-        request_id, user_id, transaction_id, api_key_name, provider, model, created_at, 
-        input_tokens, output_tokens, status, streaming, error_message, cached_tokens,
+        request_id, user_id, organization_id, transaction_id, api_key_name, provider, model, created_at, 
+        input_tokens, output_tokens, status, streaming, error_message, cached_tokens, request_type, batch_id,
         requests_content(request_json, response_json),
-        models!inner(tokenizer_name, pricing_method, price_per_input_token, price_per_output_token)
+        models!inner(tokenizer_name, pricing_method, price_per_input_token, price_per_output_token, batch_discount_multiplier)
       `)
       .eq('status', 'ready_to_compute')
       .is('error_message', null)
@@ -611,6 +628,11 @@ async function processIndividualRequest(
     }
   }
   
+  // Les embeddings sont facturés sur les tokens d'entrée uniquement
+  if (request.request_type === 'embedding') {
+    finalOutputTokens = 0;
+  }
+  
   // Create transaction
   const costResult = await calculateRequestCost(request, finalInputTokens, finalOutputTokens);
   
@@ -618,10 +640,16 @@ async function processIndividualRequest(
     throw new Error(`Cost calculation failed: ${costResult.error}`);
   }
   
+  // Remise batch configurable par modèle
+  if (request.batch_id) {
+    costResult.amount *= getBatchDiscountMultiplier(request.models);
+  }
+  
   const { data: transactionData, error: transactionError } = await supabase
     .from('transactions')
     .insert({
       user_id: request.user_id,
+      organization_id: request.organization_id || null,
       amount: costResult.amount,
       type: 'debit' as TransactionType,
       request_id: request.request_id,
@@ -633,6 +661,9 @@ async function processIndividualRequest(
     throw new Error(`Failed to create transaction: ${transactionError?.message || 'No transaction data returned'}`);
   }
   
+  // Solder la pré-autorisation posée à l'envoi de la requête
+  await walletHoldService.settleHold(request.request_id, costResult.amount);
+  
   // Mettre à jour le status de la requête à 'completed' et associer la transaction
   const { error: updateError } = await supabase
     .from('requests')
@@ -0,0 +1,225 @@
+import { supabase, dbConfig } from '../config/database.js';
+import { estimateRequestCost } from './models.js';
+import type { StandardRequest, ProviderCombination } from '../types/index.js';
+
+/**
+ * Solde disponible (balance - réservations actives) insuffisant pour couvrir le coût maximal estimé
+ */
+export class InsufficientFundsError extends Error {
+  public readonly status = 402;
+  public readonly code = 'insufficient_funds_error';
+
+  constructor(
+    public readonly required: number,
+    public readonly available: number
+  ) {
+    super(`Insufficient funds: $${required.toFixed(6)} required, $${available.toFixed(6)} available (balance minus pending holds)`);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Réservation impossible (erreur base de données) : la requête est refusée plutôt que servie sans réservation
+ */
+export class WalletHoldUnavailableError extends Error {
+  public readonly status = 503;
+  public readonly code = 'wallet_hold_unavailable_error';
+
+  constructor(reason: string) {
+    super(`Unable to reserve funds for this request, please retry: ${reason}`);
+    this.name = 'WalletHoldUnavailableError';
+  }
+}
+
+// Code PostgREST d'une fonction SQL introuvable
+const FUNCTION_NOT_FOUND_CODE = 'PGRST202';
+
+// Réservation non atomique si place_wallet_hold n'existe pas : développement uniquement, jamais en production
+const allowUnlockedHolds = process.env.WALLET_HOLD_ALLOW_UNLOCKED === 'true' && process.env.NODE_ENV !== 'production';
+
+/**
+ * Résultat d'une tentative de réservation
+ */
+interface HoldResult {
+  placed: boolean;
+  balance: number;
+  held: number; // Réservations actives avant celle-ci
+}
+
+/**
+ * Pré-autorisation sur le wallet : chaque requête réserve son coût maximal estimé,
+ * la réservation est soldée par le request-processor une fois le coût réel calculé
+ */
+export class WalletHoldService {
+  /**
+   * Coût maximal d'une requête : le provider le plus cher du fallback, max_tokens en sortie,
+   * plus l'évaluation de famille déjà engagée
+   */
+  estimateMaxCost(request: StandardRequest, combinations: ProviderCombination[]): number {
+    const maxCost = Math.max(0, ...combinations.map(combination => estimateRequestCost(request, combination)));
+    return maxCost + (request._routingInfo?.evaluationCost || 0);
+  }
+
+  /**
+   * Réserve un montant sur le wallet, de façon atomique (fonction SQL place_wallet_hold)
+   * @param organizationId - Organisation facturée : la réservation porte sur son wallet
+   * @throws InsufficientFundsError si balance - réservations actives < amount
+   * @throws WalletHoldUnavailableError si la réservation ne peut pas être enregistrée
+   */
+  async placeHold(userId: string, requestId: string, amount: number, organizationId: string | null = null): Promise<void> {
+    const expiresAt = new Date(Date.now() + dbConfig.walletHoldTtl * 1000).toISOString();
+
+    const { data, error } = await supabase.rpc('place_wallet_hold', {
+      p_user_id: userId,
+      p_organization_id: organizationId,
+      p_request_id: requestId,
+      p_amount: amount,
+      p_expires_at: expiresAt
+    });
+
+    let result: HoldResult;
+    if (error) {
+      console.error('Error placing wallet hold:', error);
+      // Refus (fail closed), sauf fonction SQL absente en développement avec WALLET_HOLD_ALLOW_UNLOCKED
+      if (error.code !== FUNCTION_NOT_FOUND_CODE || !allowUnlockedHolds) {
+        throw new WalletHoldUnavailableError(error.message);
+      }
+      result = await this.placeHoldFallback(userId, organizationId, requestId, amount, expiresAt);
+    } else {
+      const row = Array.isArray(data) ? data[0] : data;
+      result = {
+        placed: !!row?.placed,
+        balance: parseFloat(row?.balance ?? 0),
+        held: parseFloat(row?.held ?? 0)
+      };
+    }
+
+    if (!result.placed) {
+      throw new InsufficientFundsError(amount, result.balance - result.held);
+    }
+
+    console.log(`🔒 Hold $${amount.toFixed(6)} for ${requestId} (available before: $${(result.balance - result.held).toFixed(6)})`);
+  }
+
+  /**
+   * Réservation sans verrou sur le wallet (des requêtes concurrentes peuvent dépasser le solde)
+   */
+  private async placeHoldFallback(
+    userId: string,
+    organizationId: string | null,
+    requestId: string,
+    amount: number,
+    expiresAt: string
+  ): Promise<HoldResult> {
+    console.warn('⚠️ place_wallet_hold unavailable, placing wallet hold without row lock');
+
+    const [{ data: wallet, error: walletError }, held] = await Promise.all([
+      supabase.from('wallet').select('balance').eq(organizationId ? 'organization_id' : 'user_id', organizationId || userId).single(),
+      this.getHeldAmount(userId, organizationId)
+    ]);
+
+    if (walletError || !wallet) {
+      throw new Error(`Failed to fetch user balance: ${walletError?.message || 'Unknown error'}`);
+    }
+
+    const balance = parseFloat(wallet.balance.toString());
+    if (balance - held < amount) {
+      return { placed: false, balance, held };
+    }
+
+    const { error } = await supabase
+      .from('wallet_holds')
+      .insert({
+        user_id: userId,
+        organization_id: organizationId,
+        request_id: requestId,
+        amount,
+        status: 'active',
+        expires_at: expiresAt
+      });
+
+    if (error) {
+      throw new Error(`Failed to place wallet hold: ${error.message}`);
+    }
+
+    return { placed: true, balance, held };
+  }
+
+  /**
+   * Montant total des réservations actives non expirées d'un wallet
+   * (wallet personnel de l'utilisateur, ou celui de l'organisation pour tous ses membres)
+   */
+  async getHeldAmount(userId: string, organizationId: string | null = null): Promise<number> {
+    let query = supabase
+      .from('wallet_holds')
+      .select('amount');
+    query = organizationId
+      ? query.eq('organization_id', organizationId)
+      : query.eq('user_id', userId).is('organization_id', null);
+
+    const { data, error } = await query
+      .eq('status', 'active')
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch wallet holds: ${error.message}`);
+    }
+
+    return (data || []).reduce((total, hold) => total + parseFloat(hold.amount.toString()), 0);
+  }
+
+  /**
+   * Solde la réservation avec le coût réel (appelé par le request-processor)
+   */
+  async settleHold(requestId: string, amount: number): Promise<void> {
+    const { error } = await supabase
+      .from('wallet_holds')
+      .update({
+        status: 'settled',
+        settled_amount: amount,
+        settled_at: new Date().toISOString()
+      })
+      .eq('request_id', requestId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error(`Failed to settle wallet hold for ${requestId}:`, error);
+    }
+  }
+
+  /**
+   * Libère la réservation d'une requête non facturée par le request-processor (échec, annulation)
+   */
+  async releaseHold(requestId: string): Promise<void> {
+    const { error } = await supabase
+      .from('wallet_holds')
+      .update({
+        status: 'released',
+        settled_at: new Date().toISOString()
+      })
+      .eq('request_id', requestId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error(`Failed to release wallet hold for ${requestId}:`, error);
+    }
+  }
+
+  /**
+   * Rattache la réservation à la tentative qui a réellement servi la requête (failover, hedging)
+   */
+  async transferHold(fromRequestId: string, toRequestId: string): Promise<void> {
+    const { error } = await supabase
+      .from('wallet_holds')
+      .update({ request_id: toRequestId })
+      .eq('request_id', fromRequestId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error(`Failed to transfer wallet hold ${fromRequestId} → ${toRequestId}:`, error);
+    }
+  }
+}
+
+// Instance singleton
+export const walletHoldService = new WalletHoldService();
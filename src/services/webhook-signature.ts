@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { cacheUtils } from '../config/cache.js';
+
+dotenv.config();
+
+// Secret historique codé en dur : refusé en production
+export const DEFAULT_WEBHOOK_SECRET = 'default-webhook-secret-key';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_NONCE_HEADER = 'X-Webhook-Nonce';
+
+const SIGNATURE_VERSION = 'v1';
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// Écart maximal (secondes) entre l'horodatage signé et l'horloge du serveur
+const toleranceSeconds = parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300', 10) || 300;
+
+// Secrets actifs : WEBHOOK_SECRET_KEYS (séparés par des virgules, le premier signe, les suivants
+// restent acceptés pendant une rotation) ou WEBHOOK_SECRET_KEY
+const webhookSecrets = (process.env.WEBHOOK_SECRET_KEYS || process.env.WEBHOOK_SECRET_KEY || DEFAULT_WEBHOOK_SECRET)
+  .split(',')
+  .map(secret => secret.trim())
+  .filter(Boolean);
+
+/**
+ * Résultat de la vérification d'une requête webhook
+ */
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * En-têtes d'une requête webhook à vérifier
+ */
+export interface SignedWebhookRequest {
+  signature: string | undefined;
+  timestamp: string | undefined;
+  nonce: string | undefined;
+  body: string;
+}
+
+/**
+ * Secret utilisé pour signer les requêtes sortantes
+ */
+export function getWebhookSigningSecret(): string {
+  return webhookSecrets[0] || DEFAULT_WEBHOOK_SECRET;
+}
+
+/**
+ * Indique si le secret par défaut fait partie des secrets actifs
+ */
+export function isDefaultWebhookSecretInUse(): boolean {
+  return webhookSecrets.length === 0 || webhookSecrets.includes(DEFAULT_WEBHOOK_SECRET);
+}
+
+/**
+ * Refuse le secret par défaut en production (avertissement sinon)
+ * @throws Error en production si WEBHOOK_SECRET_KEY(S) n'est pas configuré
+ */
+export function assertWebhookSecretsConfigured(): void {
+  if (!isDefaultWebhookSecretInUse()) {
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Default webhook secret is not allowed in production: set WEBHOOK_SECRET_KEY (or WEBHOOK_SECRET_KEYS)');
+  }
+
+  console.warn('⚠️ Using default webhook secret key. Please set WEBHOOK_SECRET_KEY in environment variables for production.');
+}
+
+/**
+ * Signature HMAC-SHA256 de "timestamp.nonce.body"
+ */
+function computeSignature(secret: string, timestamp: string, nonce: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${nonce}.${body}`).digest('hex');
+  return `${SIGNATURE_VERSION}=${digest}`;
+}
+
+/**
+ * En-têtes de signature d'une requête webhook sortante
+ * @param body - Corps exact envoyé (chaîne vide pour un GET)
+ */
+export function signWebhookRequest(body: string, secret: string = getWebhookSigningSecret()): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = crypto.randomBytes(16).toString('hex');
+
+  return {
+    [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    [WEBHOOK_NONCE_HEADER]: nonce,
+    [WEBHOOK_SIGNATURE_HEADER]: computeSignature(secret, timestamp, nonce, body)
+  };
+}
+
+/**
+ * Compare deux signatures en temps constant
+ */
+function signaturesMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+
+  return expectedBuffer.length === providedBuffer.length && crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Vérifie la signature, la fraîcheur et l'unicité (nonce) d'une requête webhook
+ * Le nonce n'est enregistré qu'après validation de la signature, pour toute la fenêtre de tolérance
+ */
+export function verifyWebhookRequest(request: SignedWebhookRequest): WebhookVerificationResult {
+  const { signature, timestamp, nonce, body } = request;
+
+  if (!signature || !timestamp || !nonce) {
+    return { valid: false, reason: 'missing signature headers' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds) {
+    return { valid: false, reason: `timestamp outside the ${toleranceSeconds}s tolerance window` };
+  }
+
+  if (!NONCE_PATTERN.test(nonce)) {
+    return { valid: false, reason: 'invalid nonce' };
+  }
+
+  const matches = webhookSecrets.some(secret => signaturesMatch(computeSignature(secret, timestamp, nonce, body), signature));
+  if (!matches) {
+    return { valid: false, reason: 'invalid signature' };
+  }
+
+  if (!cacheUtils.claimWebhookNonce(nonce, toleranceSeconds * 2)) {
+    return { valid: false, reason: 'nonce already used' };
+  }
+
+  return { valid: true };
+}
@@ -4,6 +4,7 @@
 
 import axios, { type AxiosError } from 'axios';
 import dotenv from 'dotenv';
+import { getWebhookSigningSecret, signWebhookRequest } from './webhook-signature.js';
 
 dotenv.config();
 
@@ -56,7 +57,7 @@ interface TriggerResult {
 
 // Configuration par défaut
 const defaultConfig: WebhookConfig = {
-  secretKey: process.env.WEBHOOK_SECRET_KEY || 'default-webhook-secret-key',
+  secretKey: getWebhookSigningSecret(),
   baseUrl: `http://127.0.0.1:${process.env.PORT || 3000}`, 
   timeout: 60000
 };
@@ -79,6 +80,9 @@ function validateConfig(config: WebhookConfig): void {
   }
 }
 
+// Corps envoyé au webhook de calcul des tokens (signé tel quel)
+const WEBHOOK_BODY = '{}';
+
 /**
  * Construit l'URL complète du webhook
  * @param baseUrl - URL de base
@@ -144,9 +148,9 @@ async function executeWebhookAxios(
     const url = buildWebhookUrl(config.baseUrl);
     console.log(`🔗 Sending webhook request to: ${url}`);
     
-    const response = await axios.post<WebhookResponse>(url, {}, {
+    const response = await axios.post<WebhookResponse>(url, WEBHOOK_BODY, {
       headers: {
-        'X-Webhook-Secret': config.secretKey,
+        ...signWebhookRequest(WEBHOOK_BODY, config.secretKey),
         'Content-Type': 'application/json'
       },
       timeout: options.timeout || config.timeout,
@@ -208,9 +212,10 @@ async function executeWebhookFetch(
     const response = await fetch(url, {
       method: 'POST',
       headers: {
-        'X-Webhook-Secret': config.secretKey,
+        ...signWebhookRequest(WEBHOOK_BODY, config.secretKey),
         'Content-Type': 'application/json'
       },
+      body: WEBHOOK_BODY,
       signal: controller.signal
     });
     
@@ -370,9 +375,7 @@ export async function testWebhookConnectivity(): Promise<{
     // Test simple de connectivité (HEAD request)
     const response = await axios.head(url, {
       timeout: 5000,
-      headers: {
-        'X-Webhook-Secret': defaultConfig.secretKey
-      }
+      headers: signWebhookRequest('', defaultConfig.secretKey)
     });
     
     const latency = Date.now() - startTime;
@@ -3,7 +3,7 @@
  */
 
 import type { AxiosResponse } from 'axios';
-import type { StandardRequest, ChatCompletion, ChatCompletionChunk } from './requests.js';
+import type { StandardRequest, ChatCompletion, ChatCompletionChunk, EmbeddingRequest, EmbeddingResponse } from './requests.js';
 import type { Model } from './database.js';
 
 export interface AdapterConfig {
@@ -28,9 +28,10 @@ export interface AdapterInterface {
     model: string, 
     isStreaming?: boolean
   ): Promise<AxiosResponse | ChatCompletion>;
+  embed(request: EmbeddingRequest, model: string): Promise<EmbeddingResponse>;
 }
 
-export type AdapterType = 'openai' | 'bedrock' | 'azure-openai' | 'vertex-anthropic' | 'anthropic';
+export type AdapterType = 'openai' | 'bedrock' | 'azure-openai' | 'vertex-anthropic' | 'anthropic' | 'gemini';
 
 export type AdapterErrorCode = 
   | 'API_ERROR'
@@ -2,23 +2,58 @@
  * Types pour l'authentification et les utilisateurs
  */
 
+import type { OrganizationRole } from './database.js';
+
 export interface User {
   id: string;
   email?: string;
   balance: number;
+  tier?: string | null;
 }
 
 export interface ApiKey {
   id: string;
   name: string;
-  key: string;
+  prefix: string;  // Préfixe affichable, la clé en clair n'est pas conservée
+  limits?: ApiKeyLimits;
+}
+
+/**
+ * Permission d'une clé API restreinte
+ */
+export type ApiKeyScope = 'chat:write' | 'estimate:read' | 'models:read' | 'usage:read' | 'keys:admin';
+
+/**
+ * Restrictions propres à une clé API (null = pas de restriction)
+ */
+export interface ApiKeyLimits {
+  scopes: ApiKeyScope[] | null;  // null = accès complet
+  allowed_ips: string[] | null;
+  allowed_origins: string[] | null;
+  daily_spend_limit: number | null;
+  monthly_spend_limit: number | null;
+  allowed_models: string[] | null;
+  allowed_providers: string[] | null;
+  expires_at: string | null;
+  requests_per_minute: number | null;
+  tokens_per_minute: number | null;
 }
 
 export interface AuthData {
-  user: User;
+  user: User;                    // user.balance : solde du wallet facturé (organisation le cas échéant)
   apiKey?: ApiKey;
   authMethod: 'api_key' | 'supabase_token';
   userPreferences?: UserPreferences;
+  organization?: Organization;   // Organisation facturée (clé d'organisation ou en-tête X-Makehub-Organization)
+}
+
+/**
+ * Organisation dont l'utilisateur est membre
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
 }
 
 export interface UserPreferences {
@@ -45,6 +80,7 @@ export interface DatabaseConfig {
   minimalFund: number;
   cacheTtl: number;
   balanceCacheTtl: number;
+  walletHoldTtl: number;
 }
 
 /**
@@ -53,8 +89,13 @@ export interface DatabaseConfig {
 export type CacheKey = 
   | `balance:${string}`
   | `apikey:${string}`
+  | `apikeyspend:${string}`
+  | `orgmember:${string}:${string}`
   | 'models:all'
-  | `models:${string}`;
+  | `models:${string}`
+  | `family:${string}:${string}`
+  | `familyconfig:${string}`
+  | `webhooknonce:${string}`;
 
 /**
  * Types pour les réponses d'authentification
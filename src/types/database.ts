@@ -2,6 +2,9 @@
  * Types pour les entités de base de données
  */
 
+import type { FamilyConfig, StandardRequest, BatchOutputLine } from './requests.js';
+import type { ApiKeyScope, AuthData } from './auth.js';
+
 export interface Model {
   model_id: string;
   provider: string;
@@ -25,13 +28,17 @@ export interface Model {
   display_name: string | null;
   max_output_token: number | null;
   is_fallback?: boolean;
+  batch_discount_multiplier?: number | null; // Multiplicateur appliqué aux requêtes issues de /v1/batches
+  model_type?: 'chat' | 'embedding' | null;   // null = chat
 }
 
 
 export interface RequestRow {
   request_id: string;
-  user_id: string;
-  api_key_name: string | null;
+  user_id: string;                  // Membre à l'origine de la requête
+  organization_id?: string | null;  // Organisation facturée (null = wallet personnel)
+  api_key_id?: string | null;       // Clé utilisée : la dépense par clé est agrégée sur cet identifiant stable
+  api_key_name: string | null;      // Nom de la clé au moment de la requête
   provider: string;
   model: string;
   created_at: string;
@@ -41,6 +48,8 @@ export interface RequestRow {
   status: RequestStatus;
   streaming: boolean;
   error_message: string | null;
+  request_type?: RequestType;
+  batch_id?: string | null;
 }
 
 export interface RequestContentRow {
@@ -63,6 +72,7 @@ export interface MetricsRow {
 export interface TransactionRow {
   id: string;
   user_id: string;
+  organization_id: string | null;  // Débit sur le wallet de l'organisation si renseigné
   amount: number;
   type: TransactionType;
   request_id: string | null;
@@ -72,22 +82,171 @@ export interface TransactionRow {
 
 export interface ApiKeyRow {
   id: string;
-  user_id: string;
-  api_key: string;
+  user_id: string;                  // Créateur de la clé
+  organization_id: string | null;   // Clé d'organisation : facturée sur le wallet de l'organisation
+  api_key: string | null;           // Clé en clair historique, effacée à la migration vers api_key_hash
+  api_key_hash: string | null;      // HMAC-SHA256 de la clé (API_KEY_HASH_SECRET)
+  api_key_prefix: string | null;    // Début de la clé, pour l'affichage
+  previous_api_key_hash: string | null;        // Hash de la clé remplacée par une rotation
+  previous_api_key_expires_at: string | null;  // Fin de la période de recouvrement de la rotation
   api_key_name: string;
   is_active: boolean;
   created_at: string;
   last_used_at: string | null;
+  daily_spend_limit: number | null;     // Plafond de dépense (USD) depuis minuit UTC
+  monthly_spend_limit: number | null;   // Plafond de dépense (USD) depuis le 1er du mois UTC
+  allowed_models: string[] | null;      // null = tous les modèles
+  allowed_providers: string[] | null;   // null = tous les providers
+  expires_at: string | null;
+  requests_per_minute: number | null;   // null = limites du palier de l'utilisateur
+  tokens_per_minute: number | null;
+  scopes: ApiKeyScope[] | null;         // null = accès complet à toutes les routes
+  allowed_ips: string[] | null;         // Plages CIDR autorisées (null = toutes les adresses)
+  allowed_origins: string[] | null;     // Origines navigateur autorisées (null = toutes)
+}
+
+export type ApiKeyDenialReason = 'ip' | 'origin';
+
+export interface ApiKeyDenialRow {
+  id: string;
+  api_key_id: string;
+  user_id: string;                  // Propriétaire de la clé
+  reason: ApiKeyDenialReason;
+  ip_address: string | null;        // Adresse résolue via TRUSTED_PROXIES
+  origin: string | null;
+  path: string;
+  created_at: string;
 }
 
 export interface WalletRow {
-  user_id: string;
+  user_id: string | null;           // Wallet personnel
+  organization_id: string | null;   // Wallet d'organisation (user_id null)
   balance: number;
+  rate_limit_tier: string | null;  // Palier de rate limiting (null = palier par défaut)
   created_at: string;
   updated_at: string;
 }
 
-export type RequestStatus = 'ready_to_compute' | 'completed' | 'error';
+export type WalletHoldStatus = 'active' | 'settled' | 'released';
+
+/**
+ * Réservation sur le wallet pendant l'exécution d'une requête (pré-autorisation)
+ */
+export interface WalletHoldRow {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  request_id: string;
+  amount: number;
+  status: WalletHoldStatus;
+  settled_amount: number | null;
+  created_at: string;
+  expires_at: string; // Une réservation expirée n'est plus déduite du solde disponible
+  settled_at: string | null;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface OrganizationRow {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface OrganizationMemberRow {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+export interface FileRow {
+  id: string;
+  user_id: string;
+  filename: string;
+  purpose: FilePurpose;
+  bytes: number;
+  content: string;
+  created_at: string;
+}
+
+export interface BatchRow {
+  id: string;
+  user_id: string;
+  api_key_name: string | null;
+  endpoint: string;
+  input_file_id: string;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  completion_window: string;
+  status: BatchStatus;
+  total_requests: number;
+  completed_requests: number;
+  failed_requests: number;
+  metadata: Record<string, string> | null;
+  errors: Array<{ code: string; message: string; line?: number }> | null;
+  created_at: string;
+  in_progress_at: string | null;
+  expires_at: string;
+  completed_at: string | null;
+  failed_at: string | null;
+  expired_at: string | null;
+  cancelling_at: string | null;
+  cancelled_at: string | null;
+  auth_context: AuthData | null;  // Contexte d'authentification du créateur, pour reprendre le batch sur une autre instance
+  worker_id: string | null;       // Instance qui exécute le batch
+  heartbeat_at: string | null;    // Dernier signe de vie de cette instance : au-delà du délai, le batch est repris
+}
+
+/**
+ * Requête d'un batch (une ligne du fichier d'entrée), résultat inclus une fois exécutée
+ */
+export interface BatchRequestRow {
+  batch_id: string;
+  line_index: number;
+  custom_id: string;
+  request_json: StandardRequest;
+  status: BatchRequestStatus;
+  output_line: BatchOutputLine | null;
+  updated_at: string;
+}
+
+export interface FamilyRow extends FamilyConfig {
+  owner_user_id: string | null; // null : famille globale, sinon famille privée (family_id préfixé par "user:")
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Historique des configurations d'une famille (une ligne par version)
+ */
+export interface FamilyVersionRow {
+  family_id: string;
+  owner_user_id: string | null;
+  version: number;
+  config: FamilyConfig;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type FilePurpose = 'batch' | 'batch_output';
+export type BatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+// 'cancelled' et 'interrupted' (stream coupé après des chunks) sont facturés à l'enregistrement, sans request-processor
+export type RequestStatus = 'ready_to_compute' | 'completed' | 'error' | 'cancelled' | 'interrupted';
+// 'running' : appel en cours (une requête trouvée 'running' à la reprise a pu être facturée, elle n'est pas rejouée)
+export type BatchRequestStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+export type RequestType = 'chat' | 'embedding';
 export type TransactionType = 'credit' | 'debit';
 
 /**
@@ -126,11 +285,51 @@ export interface Database {
         Insert: Partial<ApiKeyRow>;
         Update: Partial<ApiKeyRow>;
       };
+      api_key_denials: {
+        Row: ApiKeyDenialRow;
+        Insert: Partial<ApiKeyDenialRow>;
+        Update: Partial<ApiKeyDenialRow>;
+      };
       wallet: {
         Row: WalletRow;
         Insert: Partial<WalletRow>;
         Update: Partial<WalletRow>;
       };
+      wallet_holds: {
+        Row: WalletHoldRow;
+        Insert: Partial<WalletHoldRow>;
+        Update: Partial<WalletHoldRow>;
+      };
+      organizations: {
+        Row: OrganizationRow;
+        Insert: Partial<OrganizationRow>;
+        Update: Partial<OrganizationRow>;
+      };
+      organization_members: {
+        Row: OrganizationMemberRow;
+        Insert: Partial<OrganizationMemberRow>;
+        Update: Partial<OrganizationMemberRow>;
+      };
+      files: {
+        Row: FileRow;
+        Insert: Partial<FileRow>;
+        Update: Partial<FileRow>;
+      };
+      batches: {
+        Row: BatchRow;
+        Insert: Partial<BatchRow>;
+        Update: Partial<BatchRow>;
+      };
+      family: {
+        Row: FamilyRow;
+        Insert: Partial<FamilyRow>;
+        Update: Partial<FamilyRow>;
+      };
+      family_versions: {
+        Row: FamilyVersionRow;
+        Insert: Partial<FamilyVersionRow>;
+        Update: Partial<FamilyVersionRow>;
+      };
     };
   };
 }
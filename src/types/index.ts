@@ -11,18 +11,35 @@ export type {
   TransactionRow,
   ApiKeyRow,
   WalletRow,
+  WalletHoldRow,
+  WalletHoldStatus,
+  OrganizationRow,
+  OrganizationMemberRow,
+  OrganizationRole,
+  FileRow,
+  BatchRow,
+  BatchRequestRow,
+  BatchRequestStatus,
+  FamilyRow,
+  FamilyVersionRow,
+  FilePurpose,
+  BatchStatus,
   RequestStatus,
+  RequestType,
   TransactionType,
   Database,
   RequestWithContent,
   RequestWithContentAndModel,
-  ApiKeyWithWallet
+  ApiKeyWithWallet,
+  ApiKeyDenialRow,
+  ApiKeyDenialReason
 } from './database.js';
 
 // Request/Response types
 export type {
   ChatMessage,
   ChatMessageContent,
+  CacheControl,
   ToolCall,
   Tool,
   ToolChoice,
@@ -32,6 +49,14 @@ export type {
   ChatCompletionChunk,
   ChatCompletionChunkChoice,
   Usage,
+  EmbeddingRequest,
+  EmbeddingData,
+  EmbeddingResponse,
+  FileObject,
+  BatchObject,
+  BatchRequestCounts,
+  BatchInputLine,
+  BatchOutputLine,
   CompletionRequest,
   CompletionResponse,
   CompletionChoice,
@@ -46,9 +71,23 @@ export type {
   ModelVectorScore,
   // Family Model Routing types
   FamilyConfig,
+  RoutingTarget,
   RoutingResult,
   RoutingInfo,
+  RoutingMetadata,
   ComplexityEvaluation,
+  ProviderScoreExplanation,
+  ExcludedProviderExplanation,
+  ModelRoutingTrace,
+  FamilyRoutingExplanation,
+  RoutingExplanation,
+  // Anthropic Messages ingress types
+  AnthropicStopReason,
+  AnthropicContentBlock,
+  AnthropicUsage,
+  AnthropicMessageResponse,
+  AnthropicStreamEvent,
+  AnthropicApiError,
 } from './requests.js';
 
 
@@ -56,7 +95,10 @@ export type {
 export type {
   User,
   ApiKey,
+  ApiKeyLimits,
+  ApiKeyScope,
   AuthData,
+  Organization,
   UserPreferences,
   HonoVariables,
   DatabaseConfig,
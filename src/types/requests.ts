@@ -18,6 +18,15 @@ export interface ChatMessageContent {
     url: string;
     detail?: 'low' | 'high' | 'auto';
   };
+  cache_control?: CacheControl;
+}
+
+/**
+ * Marqueur de cache de prompt (format Anthropic), transmis tel quel aux adapters
+ */
+export interface CacheControl {
+  type: 'ephemeral';
+  ttl?: string;
 }
 
 export interface ToolCall {
@@ -37,6 +46,7 @@ export interface Tool {
     description?: string;
     parameters: Record<string, any>;
   };
+  cache_control?: CacheControl;
 }
 
 export type ToolChoice = 
@@ -73,6 +83,12 @@ export interface StandardRequest {
   user?: string;
   provider?: string | string[]; // Provider(s) to use for this request
   _routingInfo?: RoutingInfo; // AJOUTÉ pour Family Model Routing
+  _batchId?: string; // Requête exécutée dans le cadre d'un batch (/v1/batches)
+  _streamFailover?: boolean; // Failover mid-stream activé (en-tête X-Stream-Failover)
+  _continuationOf?: string; // ID de la requête interrompue que celle-ci prolonge
+  _hedgeAfterMs?: number; // Délai avant de lancer un second provider en parallèle (X-Hedge-After-Ms)
+  _abortSignal?: AbortSignal; // Signal d'annulation propagé jusqu'aux adapters (déconnexion du client)
+  _routingMetadata?: RoutingMetadata; // Décision de routage renvoyée au client (en-têtes X-Makehub-*)
 }
 
 /**
@@ -95,7 +111,7 @@ export interface ChatCompletionChoice {
     content: string | null;
     tool_calls?: ToolCall[];
   };
-  finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+  finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'error' | null; // 'error' : stream interrompu (logs uniquement)
 }
 
 export interface ChatCompletionChunk {
@@ -106,6 +122,7 @@ export interface ChatCompletionChunk {
   choices: ChatCompletionChunkChoice[];
   usage?: Usage;
   system_fingerprint?: string;
+  makehub?: RoutingMetadata; // Uniquement sur le dernier chunk (choices vide)
 }
 
 export interface ChatCompletionChunkChoice {
@@ -124,10 +141,104 @@ export interface Usage {
   total_tokens?: number;
   cost?: number;
   cached_tokens?: number;
+  cache_creation_tokens?: number;
   input_tokens?: number;
   output_tokens?: number;
 }
 
+/**
+ * Requête d'embeddings standardisée (format OpenAI)
+ */
+export interface EmbeddingRequest {
+  model?: string | Model;
+  input: string | string[];
+  encoding_format?: 'float' | 'base64';
+  dimensions?: number;
+  input_type?: string; // Utilisé par Cohere (search_document, search_query...)
+  user?: string;
+  provider?: string | string[];
+}
+
+export interface EmbeddingData {
+  object: 'embedding';
+  index: number;
+  embedding: number[] | string;
+}
+
+export interface EmbeddingResponse {
+  object: 'list';
+  data: EmbeddingData[];
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Types pour l'émulation de l'API Batch OpenAI (/v1/files, /v1/batches)
+ */
+export interface FileObject {
+  id: string;
+  object: 'file';
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+}
+
+export interface BatchRequestCounts {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface BatchObject {
+  id: string;
+  object: 'batch';
+  endpoint: string;
+  errors: { object: 'list'; data: Array<{ code: string; message: string; line?: number }> } | null;
+  input_file_id: string;
+  completion_window: string;
+  status: string;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+  request_counts: BatchRequestCounts;
+  metadata: Record<string, string> | null;
+}
+
+/**
+ * Ligne du fichier JSONL d'entrée d'un batch
+ */
+export interface BatchInputLine {
+  custom_id: string;
+  method: 'POST';
+  url: string;
+  body: Record<string, any>;
+}
+
+/**
+ * Ligne des fichiers JSONL de sortie et d'erreur d'un batch
+ */
+export interface BatchOutputLine {
+  id: string;
+  custom_id: string;
+  response: {
+    status_code: number;
+    request_id: string;
+    body: ChatCompletion | ApiError;
+  } | null;
+  error: { code: string; message: string } | null;
+}
+
 /**
  * Types pour les requêtes legacy completion
  */
@@ -232,6 +343,7 @@ export interface ApiError {
     param?: string;
     code?: string;
     provider?: string;
+    request_id?: string;
     details?: any;
   };
 }
@@ -306,6 +418,8 @@ export interface FamilyConfig {
       max_score: number;
       target_model: string;
       reason: string;
+      providers?: string[]; // Restreint les providers du modèle cible (sinon tous, classés par filterProviders)
+      ratio_sp?: number; // Ratio performance/prix propre à la tranche
     }>;
     fallback_model: string;
     fallback_provider: string;
@@ -315,10 +429,18 @@ export interface FamilyConfig {
   };
 }
 
+export interface RoutingTarget {
+  model: string;
+  providers: string[] | null; // null : tous les providers du modèle
+  ratioSp?: number;
+}
+
 export interface RoutingResult {
   selectedModel: string;
-  selectedProvider: string;
-  complexityScore: number;
+  selectedProviders: string[] | null;
+  ratioSp?: number;
+  stepDownTargets: RoutingTarget[]; // Tranches inférieures tentées si tous les providers du modèle choisi échouent
+  complexityScore: number | null; // null : évaluation expirée (fallback_model)
   reasoning: string;
   evaluationCost: number;
   evaluationTokens: number;
@@ -328,13 +450,26 @@ export interface RoutingResult {
 export interface RoutingInfo {
   originalFamily: string;
   selectedModel: string;
-  selectedProvider: string;
-  complexityScore: number;
+  selectedProviders: string[] | null;
+  complexityScore: number | null; // null : évaluation expirée (fallback_model)
   evaluationCost: number;
   evaluationTokens: number;
   reasoning: string;
 }
 
+/**
+ * Décision de routage d'une requête chat, exposée au client
+ */
+export interface RoutingMetadata {
+  request_id: string;
+  provider: string | null;
+  model: string | null;
+  attempts: number;                  // Rang de la combinaison qui a répondu (1 = aucun fallback)
+  family: string | null;
+  family_score: number | null;
+  estimated_cost: number | null;     // USD, évaluation famille incluse
+}
+
 export interface ComplexityEvaluation {
   score: number;
   cost: number;
@@ -343,4 +478,115 @@ export interface ComplexityEvaluation {
     output: number;
     total: number;
   };
+  // Score par défaut (50) faute d'évaluation exploitable : jamais mis en cache
+  fallback?: boolean;
+}
+
+/**
+ * Types pour l'endpoint /v1/routing/explain (dry-run du routage, sans appel LLM)
+ */
+export interface ProviderScoreExplanation {
+  rank: number;
+  provider: string;
+  model_id: string;
+  provider_model_id: string;
+  estimated_tokens: number;          // Tokens de la requête selon le tokenizer du modèle
+  score: number;                     // distance euclidienne (plus bas = meilleur)
+  normalized_price: number;
+  normalized_throughput: number;
+  normalized_latency: number;
+  caching_boost: boolean;
+  has_sufficient_metrics: boolean;
+  metrics: ModelPerformanceMetrics;
+  price_per_input_token: number;
+  price_per_output_token: number;
+  circuit_state: 'closed' | 'open' | 'half_open'; // open : ignoré sauf en dernier recours
+}
+
+export interface ExcludedProviderExplanation {
+  provider: string;
+  model_id: string;
+  reasons: string[];                 // ex: "no vision", "context too small (8192 < 12000)"
+}
+
+export interface ModelRoutingTrace {
+  model: string;
+  ratio_sp: number;
+  estimated_tokens: Record<string, number>; // Par tokenizer_name des candidats ("" : approximation)
+  requirements: {
+    tools: boolean;
+    vision: boolean;
+    providers: string[] | null;
+  };
+  ranked: ProviderScoreExplanation[];
+  excluded: ExcludedProviderExplanation[];
+  error?: string;                    // aucun provider disponible pour ce modèle
+}
+
+export interface FamilyRoutingExplanation {
+  family_id: string;
+  score: number | null;              // null : aucun score connu, toutes les tranches sont détaillées
+  score_source: 'override' | 'cache' | null;
+  selected_range: FamilyConfig['routing_config']['score_ranges'][number] | null;
+  reasoning: string | null;
+  targets: RoutingTarget[];
+}
+
+export interface RoutingExplanation {
+  model: string;
+  family: FamilyRoutingExplanation | null;
+  targets: ModelRoutingTrace[];
+}
+
+/**
+ * Types pour l'endpoint compatible Anthropic (/v1/messages)
+ */
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> };
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+export interface AnthropicMessageResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessageResponse }
+  | { type: 'ping' }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicContentBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: AnthropicStopReason | null; stop_sequence: string | null };
+      usage: AnthropicUsage;
+    }
+  | { type: 'message_stop' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+export interface AnthropicApiError {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
 }